@@ -105,6 +105,16 @@ const copyStatic = async () => {
     }
   }
 
+  // Dashboard page (action button)
+  const dashboardSrc = path.join(rootDir, "src", "dashboard", "index.html");
+  await fs.mkdir(path.join(distDir, "dashboard"), { recursive: true });
+  await fs.copyFile(dashboardSrc, path.join(distDir, "dashboard", "index.html"));
+
+  // Offscreen document (object URLs for generated archives)
+  const offscreenSrc = path.join(rootDir, "src", "offscreen", "index.html");
+  await fs.mkdir(path.join(distDir, "offscreen"), { recursive: true });
+  await fs.copyFile(offscreenSrc, path.join(distDir, "offscreen", "index.html"));
+
   // Declarative net-request rules
   const rulesSrc = path.join(rootDir, "rules");
   try {
@@ -126,6 +136,8 @@ const buildOptions = {
   entryPoints: [
     path.join(rootDir, "src", "background", "index.ts"),
     path.join(rootDir, "src", "content", "index.ts"),
+    path.join(rootDir, "src", "offscreen", "index.ts"),
+    path.join(rootDir, "src", "dashboard", "index.ts"),
   ],
   bundle: true,
   splitting: false,
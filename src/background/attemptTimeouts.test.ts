@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AttemptController, readBody } from './attemptTimeouts'
+
+const reasonOf = (signal: AbortSignal) => signal.reason as DOMException
+
+describe('AttemptController', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('aborts with a TimeoutError once the attempt runs too long', () => {
+    const attempt = new AttemptController(new AbortController().signal, { timeoutMs: 10_000, stallTimeoutMs: 0 })
+
+    vi.advanceTimersByTime(9_999)
+    expect(attempt.signal.aborted).toBe(false)
+
+    vi.advanceTimersByTime(1)
+    expect(attempt.signal.aborted).toBe(true)
+    expect(reasonOf(attempt.signal).name).toBe('TimeoutError')
+    expect(reasonOf(attempt.signal).message).toBe('Request timed out after 10s')
+  })
+
+  it('aborts when no data arrives for the stall timeout', () => {
+    const attempt = new AttemptController(new AbortController().signal, { timeoutMs: 0, stallTimeoutMs: 2_500 })
+
+    vi.advanceTimersByTime(2_500)
+    expect(reasonOf(attempt.signal).name).toBe('TimeoutError')
+    expect(reasonOf(attempt.signal).message).toBe('No data received for 2.5s')
+  })
+
+  it('restarts the stall timer on progress', () => {
+    const attempt = new AttemptController(new AbortController().signal, { timeoutMs: 0, stallTimeoutMs: 1_000 })
+
+    for (let index = 0; index < 5; index += 1) {
+      vi.advanceTimersByTime(900)
+      attempt.touch()
+    }
+    expect(attempt.signal.aborted).toBe(false)
+
+    vi.advanceTimersByTime(1_000)
+    expect(attempt.signal.aborted).toBe(true)
+  })
+
+  it('still enforces the overall timeout while data keeps arriving', () => {
+    const attempt = new AttemptController(new AbortController().signal, { timeoutMs: 3_000, stallTimeoutMs: 1_000 })
+
+    for (let index = 0; index < 3; index += 1) {
+      vi.advanceTimersByTime(900)
+      attempt.touch()
+    }
+    vi.advanceTimersByTime(300)
+    expect(reasonOf(attempt.signal).message).toBe('Request timed out after 3s')
+  })
+
+  it('follows the job signal', () => {
+    const job = new AbortController()
+    const attempt = new AttemptController(job.signal, { timeoutMs: 1_000, stallTimeoutMs: 1_000 })
+
+    job.abort('cancelled')
+    expect(attempt.signal.reason).toBe('cancelled')
+  })
+
+  it('starts aborted when the job already is', () => {
+    const job = new AbortController()
+    job.abort('cancelled')
+    expect(new AttemptController(job.signal, { timeoutMs: 0, stallTimeoutMs: 0 }).signal.reason).toBe('cancelled')
+  })
+
+  it('clears its timers and stops following the job once disposed', () => {
+    const job = new AbortController()
+    const attempt = new AttemptController(job.signal, { timeoutMs: 1_000, stallTimeoutMs: 500 })
+
+    attempt.dispose()
+    expect(vi.getTimerCount()).toBe(0)
+
+    job.abort('cancelled')
+    vi.advanceTimersByTime(5_000)
+    expect(attempt.signal.aborted).toBe(false)
+  })
+
+  it('clears its timers once it timed out', () => {
+    const attempt = new AttemptController(new AbortController().signal, { timeoutMs: 1_000, stallTimeoutMs: 5_000 })
+
+    vi.advanceTimersByTime(1_000)
+    expect(attempt.signal.aborted).toBe(true)
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
+
+describe('readBody', () => {
+  it('reads every chunk and marks progress for each one', async () => {
+    const chunks = ['ab', 'cd', 'e'].map((text) => new TextEncoder().encode(text))
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk))
+        controller.close()
+      },
+    })
+    const attempt = new AttemptController(new AbortController().signal, { timeoutMs: 0, stallTimeoutMs: 0 })
+    const touch = vi.spyOn(attempt, 'touch')
+
+    const buffer = await readBody(new Response(body), attempt)
+    expect(new TextDecoder().decode(buffer)).toBe('abcde')
+    expect(touch).toHaveBeenCalledTimes(3)
+  })
+})
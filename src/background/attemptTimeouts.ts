@@ -0,0 +1,100 @@
+export interface AttemptTimeouts {
+  /** Upper bound for a whole attempt (headers and body), 0 disables it. */
+  timeoutMs: number
+  /** Aborts when no bytes arrive for this long, 0 disables it. */
+  stallTimeoutMs: number
+}
+
+/**
+ * Abort scope for a single fetch attempt. It follows the job signal, and also
+ * aborts with a `TimeoutError` when the attempt runs too long or stalls, so a
+ * hung connection only fails that attempt instead of holding a slot forever.
+ */
+export class AttemptController {
+  private readonly controller = new AbortController()
+  private readonly stallTimeoutMs: number
+  private deadlineTimer: ReturnType<typeof setTimeout> | undefined
+  private stallTimer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(private readonly parent: AbortSignal, { timeoutMs, stallTimeoutMs }: AttemptTimeouts) {
+    this.stallTimeoutMs = stallTimeoutMs
+
+    if (parent.aborted) {
+      this.controller.abort(parent.reason)
+    } else {
+      parent.addEventListener('abort', this.forwardAbort, { once: true })
+    }
+
+    if (timeoutMs > 0) {
+      this.deadlineTimer = setTimeout(() => {
+        this.timeout(`Request timed out after ${formatSeconds(timeoutMs)}`)
+      }, timeoutMs)
+    }
+    this.touch()
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal
+  }
+
+  /** Marks progress on the connection and restarts the stall timer. */
+  touch() {
+    if (this.stallTimeoutMs <= 0) {
+      return
+    }
+
+    clearTimeout(this.stallTimer)
+    this.stallTimer = setTimeout(() => {
+      this.timeout(`No data received for ${formatSeconds(this.stallTimeoutMs)}`)
+    }, this.stallTimeoutMs)
+  }
+
+  dispose() {
+    clearTimeout(this.deadlineTimer)
+    clearTimeout(this.stallTimer)
+    this.parent.removeEventListener('abort', this.forwardAbort)
+  }
+
+  private readonly forwardAbort = () => {
+    this.controller.abort(this.parent.reason)
+  }
+
+  private timeout(message: string) {
+    this.dispose()
+    this.controller.abort(new DOMException(message, 'TimeoutError'))
+  }
+}
+
+/**
+ * Reads a response body chunk by chunk, reporting each chunk to `attempt` so
+ * the stall timer only fires when the transfer really stops.
+ */
+export const readBody = async (response: Response, attempt: AttemptController): Promise<ArrayBuffer> => {
+  if (!response.body) {
+    return response.arrayBuffer()
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    attempt.touch()
+    chunks.push(value)
+    length += value.length
+  }
+
+  const bytes = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes.buffer
+}
+
+const formatSeconds = (ms: number) => `${Math.round(ms / 100) / 10}s`
@@ -0,0 +1,41 @@
+const FLUSH_THRESHOLD_BYTES = 4 * 1024 * 1024
+
+/**
+ * Accumulates streamed chunks into a list of Blob parts. Chrome backs large
+ * blobs with disk storage, so flushing every few megabytes keeps the worker's
+ * heap small even for multi-gigabyte archives.
+ */
+export class BlobCollector {
+  private readonly parts: Blob[] = []
+  private pending: Uint8Array[] = []
+  private pendingSize = 0
+  private totalSize = 0
+
+  get size(): number {
+    return this.totalSize
+  }
+
+  push = (chunk: Uint8Array) => {
+    this.pending.push(chunk)
+    this.pendingSize += chunk.length
+    this.totalSize += chunk.length
+
+    if (this.pendingSize >= FLUSH_THRESHOLD_BYTES) {
+      this.flush()
+    }
+  }
+
+  toBlob(type: string): Blob {
+    this.flush()
+    return new Blob(this.parts, { type })
+  }
+
+  private flush() {
+    if (!this.pending.length) {
+      return
+    }
+    this.parts.push(new Blob(this.pending as BlobPart[]))
+    this.pending = []
+    this.pendingSize = 0
+  }
+}
@@ -0,0 +1,17 @@
+import { FailureKind } from '../shared/failures'
+
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    readonly kind: FailureKind,
+    readonly status?: number,
+    /** Delay requested by the server through `Retry-After`, in milliseconds. */
+    readonly retryAfterMs?: number
+  ) {
+    super(message)
+  }
+}
+
+export class NonRetryableError extends DownloadError {
+  retryable = false
+}
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LightshotClient, ScreenMeta } from '../domain/lightshotClient'
+import { DEFAULT_NAMING } from '../shared/filenameTemplate'
+import { JobMessage } from '../shared/protocol'
+import { DownloadService } from './downloadService'
+import { JobJournal, JournalJob } from './jobJournal'
+import { createOutputSink, OutputSink } from './outputSink'
+import { createRetryPolicy } from './retryPolicy'
+
+vi.mock('./outputSink', () => ({ createOutputSink: vi.fn() }))
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0])
+
+const screen = (id36: string): ScreenMeta => ({ id36, url: `https://img.lightshot.app/${id36}.png`, date: '2024-01-01' })
+
+/** A journal that keeps everything in memory. */
+const fakeJournal = (overrides: Partial<Record<keyof JobJournal, unknown>> = {}) =>
+  ({
+    create: async (screens: ScreenMeta[], account: string): Promise<JournalJob> => ({ id: 'job', createdAt: 0, screens, account }),
+    completedIds: async () => new Set<string>(),
+    saveFile: async () => undefined,
+    readFiles: async () => [],
+    discard: async () => undefined,
+    release: () => undefined,
+    ...overrides,
+  }) as unknown as JobJournal
+
+const fakeSink = (overrides: Partial<OutputSink>): OutputSink => ({
+  incremental: true,
+  bytesWritten: 0,
+  begin: async () => undefined,
+  containerOf: () => undefined,
+  reserveShared: () => false,
+  addFile: async () => 'written',
+  finalize: async () => undefined,
+  abort: async () => undefined,
+  ...overrides,
+})
+
+describe('DownloadService', () => {
+  let requested: string[]
+
+  beforeEach(() => {
+    requested = []
+    // 'a' answers at once; every other screenshot hangs until its request is aborted
+    vi.stubGlobal('fetch', (url: string, init: RequestInit) => {
+      requested.push(url)
+      if (url.endsWith('/a.png')) {
+        return Promise.resolve(new Response(PNG, { headers: { 'content-type': 'image/png' } }))
+      }
+      return new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+      })
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const run = (journal: JobJournal, screens: ScreenMeta[]) => {
+    const messages: JobMessage[] = []
+    const done = new DownloadService({} as LightshotClient, journal).run({
+      concurrency: 2,
+      signal: new AbortController().signal,
+      port: { postMessage: (message: JobMessage) => messages.push(message) },
+      retryPolicy: createRetryPolicy({ maxAttempts: 3, baseDelayMs: 0 }),
+      timeouts: { timeoutMs: 30_000, stallTimeoutMs: 30_000 },
+      throttleDelayMs: 0,
+      screens,
+      naming: DEFAULT_NAMING,
+    })
+    return done.then(() => messages)
+  }
+
+  it('stops the other downloads when the sink fails', async () => {
+    const abort = vi.fn(async () => undefined)
+    vi.mocked(createOutputSink).mockReturnValue(
+      fakeSink({ addFile: () => Promise.reject(new Error('Disk full')), abort })
+    )
+
+    const messages = await run(fakeJournal(), [screen('a'), screen('b'), screen('c')])
+
+    expect(requested).toEqual([screen('a').url, screen('b').url])
+    expect(abort).toHaveBeenCalled()
+    expect(messages).toContainEqual({ type: 'error', message: 'Disk full' })
+    expect(messages.some((message) => message.type === 'done')).toBe(false)
+  })
+
+  it('does not fetch again when the journal cannot store a download', async () => {
+    vi.mocked(createOutputSink).mockReturnValue(fakeSink({}))
+    const journal = fakeJournal({ saveFile: () => Promise.reject(new Error('Quota exceeded')) })
+
+    const messages = await run(journal, [screen('a')])
+
+    expect(requested).toEqual([screen('a').url])
+    expect(messages).toContainEqual({ type: 'error', message: 'Quota exceeded' })
+  })
+})
@@ -1,110 +1,231 @@
-import JSZip from 'jszip'
-import { LightshotClient, ScreenMeta } from '../domain/lightshotClient'
+import { DEFAULT_ACCOUNT, LightshotClient, parseLightshotDate, ScreenMeta } from '../domain/lightshotClient'
+import { createFileNamer, NamingOptions } from '../shared/filenameTemplate'
+import { collectScreens } from '../shared/collectScreens'
+import { delay } from '../shared/delay'
+import { FailedScreen } from '../shared/failures'
+import { sha256Hex } from '../shared/hash'
+import { JobMessage } from '../shared/protocol'
+import { applyScreenFilter, describeScreenFilter, hasActiveFilter, ScreenFilter } from '../shared/screenFilter'
+import { OutputFormat } from '../shared/settings'
+import { readSyncState, recordExport } from '../shared/syncState'
 import { createThrottler } from '../shared/throttler'
-
-interface DownloadOptions {
+import { AttemptController, AttemptTimeouts, readBody } from './attemptTimeouts'
+import { DownloadError, NonRetryableError } from './downloadError'
+import { FolderTarget } from './folderOutput'
+import { buildGalleryViewer, GALLERY_VIEWER_FILENAME } from './galleryViewer'
+import { DetectedImage, detectImageFormat, looksLikeHtml } from './imageFormat'
+import { embedImageMetadata } from './imageMetadata'
+import { JobJournal, JournalFile, JournalJob } from './jobJournal'
+import {
+  buildManifestCsv,
+  buildManifestJson,
+  createManifestEntry,
+  MANIFEST_CSV_FILENAME,
+  MANIFEST_JSON_FILENAME,
+  ManifestEntry,
+} from './manifest'
+import { createOutputSink, SinkFile } from './outputSink'
+import { PauseController } from './pauseController'
+import { AdaptiveRateController, CongestionSignal, parseRetryAfter } from './rateController'
+import { RetryPolicy } from './retryPolicy'
+
+/** Where job progress goes: the requesting port, or a fan-out to every attached page. */
+export type ProgressTarget = Pick<chrome.runtime.Port, 'postMessage'>
+
+export interface DownloadOptions {
   concurrency: number;
   signal: AbortSignal;
-  port: chrome.runtime.Port;
-  retryAttempts: number;
-  retryBaseDelayMs: number;
+  /** Holds back new screenshots while paused; in-flight ones still finish. */
+  pause?: PauseController;
+  port: ProgressTarget;
+  retryPolicy: RetryPolicy;
+  timeouts: AttemptTimeouts;
   throttleDelayMs: number;
+  /** Let server responses drive concurrency and delay, up to `concurrency`. */
+  adaptive?: boolean;
   screens?: ScreenMeta[];
+  account?: string;
+  /** When collecting metadata here, skip screenshots already exported for the account. */
+  onlyNew?: boolean;
+  /**
+   * Remember the exported ids as the account's sync state. Only set for runs
+   * that cover the whole gallery or everything new since the last export, so
+   * a picked, filtered or retry run never moves the cursor.
+   */
+  recordSync?: boolean;
+  resumeJobId?: string;
+  maxArchiveBytes?: number;
+  maxFilesPerArchive?: number;
+  naming: NamingOptions;
+  /** Store identical images (same SHA-256) once; the manifest maps duplicates to the kept file. */
+  dedupe?: boolean;
+  /** Also skip content exported by previous runs for the same account. */
+  dedupeAcrossRuns?: boolean;
+  /**
+   * Write the capture date, id, share URL and description into each PNG/JPEG
+   * as it is saved. Deduplication uses the downloaded bytes; the manifest
+   * lists the stored file's size and hash next to them.
+   */
+  embedMetadata?: boolean;
+  filter?: ScreenFilter;
+  /** ZIP, deflated or stored (split by the limits above), TAR, or individual files. */
+  outputFormat?: OutputFormat;
+  /** Base name of the produced archive(s) without extension, or the subfolder of individual files. */
+  archiveBaseName?: string;
+  /** Write each image into this directory as it downloads; takes precedence over `outputFormat`. */
+  folder?: FolderTarget;
 }
 
-interface ProgressPayload {
-  type: 'progress';
-  completed: number;
-  total: number;
-  currentId: string;
-  succeeded?: number;
-  failed?: number;
-}
-
-interface LogPayload {
-  type: 'log';
-  level: 'info' | 'warn';
-  message: string;
-}
-
-interface StatusPayload {
-  type: 'status';
-  message: string;
-}
-
-interface StartPayload {
-  type: 'start';
-  total: number;
-  concurrency: number;
-}
-
-interface DonePayload {
-  type: 'done';
-  total: number;
-  failed: number;
-  downloadId?: number;
-  processed?: number;
-  succeeded?: number;
-}
-
-interface ErrorPayload {
-  type: 'error';
-  message: string;
-}
-
-interface CancelledPayload {
-  type: 'cancelled';
-}
-
-type PortMessage =
-  | ProgressPayload
-  | LogPayload
-  | StatusPayload
-  | StartPayload
-  | DonePayload
-  | ErrorPayload
-  | CancelledPayload;
+export const INTERRUPTED_REASON = 'interrupted'
 
-const DEFAULT_FILENAME = 'lightshot-gallery.zip'
+const DEFAULT_ARCHIVE_BASE_NAME = 'lightshot-gallery'
 const LARGE_GALLERY_THRESHOLD = 800
 const MIN_SEQUENTIAL_THROTTLE_MS = 150
+const RATE_SAMPLE_INTERVAL_MS = 1000
 const boundFetch: typeof fetch = (input, init) => globalThis.fetch(input, init)
 
-class NonRetryableError extends Error {
-  retryable = false
-}
+type DownloadOutcome =
+  | { ok: true; buffer: ArrayBuffer; image: DetectedImage }
+  | ({ ok: false; attempts: number } & Omit<FailedScreen, 'screen'>)
 
 export class DownloadService {
-  constructor(private readonly client = new LightshotClient()) {}
+  constructor(
+    private readonly client = new LightshotClient(),
+    private readonly journal = new JobJournal()
+  ) {}
+
+  /** Deletes the journal of an interrupted job the user chose not to resume. */
+  discardInterrupted(jobId: string): Promise<void> {
+    return this.journal.discardUnused(jobId)
+  }
 
-  private send(port: chrome.runtime.Port, payload: PortMessage) {
+  private send(port: ProgressTarget, payload: JobMessage) {
     port.postMessage(payload)
   }
 
-  async run({ concurrency, signal, port, retryAttempts, retryBaseDelayMs, throttleDelayMs, screens }: DownloadOptions): Promise<void> {
+  async run({
+    concurrency,
+    signal,
+    pause,
+    port,
+    retryPolicy,
+    timeouts,
+    throttleDelayMs,
+    adaptive = false,
+    screens,
+    account,
+    onlyNew = false,
+    recordSync = false,
+    resumeJobId,
+    maxArchiveBytes,
+    maxFilesPerArchive,
+    naming,
+    dedupe = false,
+    dedupeAcrossRuns = false,
+    embedMetadata = false,
+    filter = {},
+    outputFormat = 'zip',
+    archiveBaseName = DEFAULT_ARCHIVE_BASE_NAME,
+    folder,
+  }: DownloadOptions): Promise<void> {
+    let job: JournalJob | null = null
+
     try {
-      let resolvedScreens = screens ?? null
+      if (resumeJobId) {
+        job = await this.journal.load(resumeJobId)
+        if (!job) {
+          throw new Error('The previous download could not be found. Please start a new one.')
+        }
+      } else {
+        let resolvedScreens: ScreenMeta[]
+        let unfilteredCount: number
+
+        if (screens) {
+          resolvedScreens = applyScreenFilter(screens, filter)
+          unfilteredCount = screens.length
+        } else {
+          this.send(port, { type: 'status', message: 'Collecting gallery metadata...' })
+          account = account ?? await this.client.getAccountKey(signal)
+          const collected = await collectScreens(this.client, account, { onlyNew, filter }, signal)
+          resolvedScreens = collected.screens
+          unfilteredCount = collected.unfilteredCount
+
+          if (onlyNew && !collected.syncState) {
+            this.send(port, {
+              type: 'log',
+              level: 'warn',
+              message: 'No previous export found for this account; downloading everything.',
+            })
+          }
+
+          if (collected.syncState) {
+            const { newCount, retriedCount } = collected
+            this.send(port, {
+              type: 'log',
+              level: 'info',
+              message: `${newCount} new screenshot(s) since the last export${retriedCount ? `, retrying ${retriedCount} that failed before` : ''}.`,
+            })
+          }
+        }
+
+        if (resolvedScreens.length !== unfilteredCount) {
+          this.send(port, {
+            type: 'log',
+            level: 'info',
+            message: `Filters (${describeScreenFilter(filter)}) kept ${resolvedScreens.length} of ${unfilteredCount} screenshot(s).`,
+          })
+        }
+
+        if (!resolvedScreens.length) {
+          const message = hasActiveFilter(filter)
+            ? 'No screenshots match the selected filters.'
+            : 'No screenshots found in your gallery.'
+          this.send(port, { type: 'status', message })
+          this.send(port, { type: 'done', total: 0, failed: 0 })
+          return
+        }
 
-      if (!resolvedScreens) {
-        this.send(port, { type: 'status', message: 'Collecting gallery metadata...' })
-        resolvedScreens = await this.client.getAllScreens(undefined, signal)
+        job = await this.journal.create(resolvedScreens, account ?? DEFAULT_ACCOUNT, recordSync)
       }
 
-      if (!resolvedScreens || !resolvedScreens.length) {
-        this.send(port, { type: 'status', message: 'No screenshots found in your gallery.' })
-        this.send(port, { type: 'done', total: 0, failed: 0 })
-        return
+      const completedIds = await this.journal.completedIds(job.id)
+      const remainingScreens = job.screens.filter((screen) => !completedIds.has(screen.id36))
+
+      if (completedIds.size > 0) {
+        this.send(port, {
+          type: 'status',
+          message: `Resuming previous download: ${completedIds.size}/${job.screens.length} screenshot(s) already fetched.`,
+        })
       }
 
       let effectiveConcurrency = concurrency
       let effectiveThrottle = throttleDelayMs
 
-      if (resolvedScreens.length >= LARGE_GALLERY_THRESHOLD && concurrency > 1) {
+      const largeGallery = remainingScreens.length >= LARGE_GALLERY_THRESHOLD
+      const rate = adaptive
+        ? new AdaptiveRateController({
+          // large galleries start gently and ramp up while the server keeps up
+          initialConcurrency: largeGallery ? 1 : concurrency,
+          maxConcurrency: concurrency,
+          initialDelayMs: largeGallery ? Math.max(throttleDelayMs, MIN_SEQUENTIAL_THROTTLE_MS) : throttleDelayMs,
+          minDelayMs: throttleDelayMs,
+        })
+        : undefined
+
+      if (rate) {
+        effectiveConcurrency = rate.concurrency
+        effectiveThrottle = rate.delayMs
+        this.send(port, {
+          type: 'log',
+          level: 'info',
+          message: `Adaptive rate enabled: starting with ${rate.concurrency} stream(s), up to ${concurrency}.`,
+        })
+      } else if (largeGallery && concurrency > 1) {
         effectiveConcurrency = 1
         effectiveThrottle = Math.max(throttleDelayMs, MIN_SEQUENTIAL_THROTTLE_MS)
         this.send(port, {
           type: 'status',
-          message: `Large gallery detected (${resolvedScreens.length} screenshots). Switching to sequential mode for stability.`,
+          message: `Large gallery detected (${remainingScreens.length} screenshots). Switching to sequential mode for stability.`,
         })
       }
 
@@ -116,17 +237,37 @@ export class DownloadService {
         })
       }
 
-      this.send(port, { type: 'start', total: resolvedScreens.length, concurrency: effectiveConcurrency })
-      await this.downloadScreens(resolvedScreens, {
+      this.send(port, {
+        type: 'start',
+        total: job.screens.length,
+        concurrency: effectiveConcurrency,
+        resumed: completedIds.size,
+      })
+      await this.downloadScreens(job, remainingScreens, completedIds.size, {
         concurrency: effectiveConcurrency,
         signal,
+        pause,
         port,
-        retryAttempts,
-        retryBaseDelayMs,
+        retryPolicy,
+        timeouts,
         throttleDelayMs: effectiveThrottle,
+        rate,
+        maxArchiveBytes,
+        maxFilesPerArchive,
+        naming,
+        dedupe,
+        dedupeAcrossRuns,
+        embedMetadata,
+        outputFormat,
+        archiveBaseName,
+        folder,
       })
     } catch (error) {
       if (signal.aborted) {
+        // An interrupted job (closed tab) keeps its journal so it can be resumed later.
+        if (job && signal.reason !== INTERRUPTED_REASON) {
+          await this.journal.discard(job.id)
+        }
         this.send(port, { type: 'status', message: 'Download cancelled.' })
         this.send(port, { type: 'cancelled' })
         return
@@ -134,139 +275,427 @@ export class DownloadService {
 
       const message = error instanceof Error ? error.message : String(error)
       this.send(port, { type: 'error', message })
+    } finally {
+      if (job) {
+        this.journal.release(job.id)
+      }
     }
   }
 
   private async downloadScreens(
+    job: JournalJob,
     screens: ScreenMeta[],
+    alreadyCompleted: number,
     {
       concurrency,
       signal,
+      pause,
       port,
-      retryAttempts,
-      retryBaseDelayMs,
+      retryPolicy,
+      timeouts,
       throttleDelayMs,
-    }: Omit<DownloadOptions, 'port'> & { port: chrome.runtime.Port }
+      rate,
+      maxArchiveBytes,
+      maxFilesPerArchive,
+      naming,
+      dedupe = false,
+      dedupeAcrossRuns = false,
+      embedMetadata = false,
+      outputFormat = 'zip',
+      archiveBaseName = DEFAULT_ARCHIVE_BASE_NAME,
+      folder,
+    }: Omit<DownloadOptions, 'port'> & { port: ProgressTarget; rate?: AdaptiveRateController }
   ): Promise<void> {
-    const zip = new JSZip()
     const throttler = createThrottler(concurrency)
-    let processed = 0
-    let succeeded = 0
+    const total = job.screens.length
+    let processed = alreadyCompleted
+    let succeeded = alreadyCompleted
     let failed = 0
+    const failures = new Map<string, FailedScreen>()
+
+    const account = job.account ?? DEFAULT_ACCOUNT
+    const previousHashes = dedupe && dedupeAcrossRuns ? (await readSyncState(account))?.hashes ?? {} : {}
+    const nameFile = createFileNamer(naming)
+    const screenIndex = new Map(job.screens.map((screen, index) => [screen.id36, index]))
+
+    const downloadIds: number[] = []
+    const sink = createOutputSink(
+      { format: outputFormat, baseName: archiveBaseName, maxArchiveBytes, maxFilesPerArchive, folder },
+      (message) => {
+        if (message.type === 'volume' && message.downloadId !== undefined) {
+          downloadIds.push(message.downloadId)
+        }
+        this.send(port, message)
+      }
+    )
 
-    this.send(port, { type: 'status', message: `Downloading ${screens.length} screenshot(s)...` })
+    // size and hash of files whose stored bytes differ from the download
+    const storedFiles = new Map<string, { size: number; sha256: string }>()
 
-    const emitProgress = (currentId: string) => {
-      this.send(port, {
-        type: 'progress',
-        completed: processed,
-        total: screens.length,
-        currentId,
-        succeeded,
-        failed,
+    const withMetadata = async (screen: ScreenMeta, data: Blob, sha256?: string) => {
+      const result = await embedImageMetadata(data, {
+        id36: screen.id36,
+        date: parseLightshotDate(screen.date),
+        shareUrl: screen.share_url,
+        description: screen.description,
       })
+      if (result.dropped.length) {
+        this.send(port, {
+          type: 'log',
+          level: 'warn',
+          message: `${screen.id36}: ${result.dropped.join(' and ')} metadata left out, too large for a JPEG segment.`,
+        })
+      }
+      if (result.data === data) {
+        return { data, sha256 }
+      }
+
+      const storedSha256 = await sha256Hex(await result.data.arrayBuffer())
+      storedFiles.set(screen.id36, { size: result.data.size, sha256: storedSha256 })
+      return { data: result.data, sha256: storedSha256 }
     }
 
-    await Promise.all(
-      screens.map((screen) =>
-        throttler(async () => {
-          signal.throwIfAborted()
+    // incremental sinks name and deduplicate files in the order they arrive
+    const findIncrementalDuplicate = createDuplicateFinder(previousHashes)
+    const incrementalNames = new Map<string, string>()
+    const incrementalDuplicates = new Map<string, string>()
+
+    const addIncrementally = async (
+      screen: ScreenMeta,
+      { data, sha256, extension }: Pick<JournalFile, 'data' | 'sha256' | 'extension'>
+    ) => {
+      const hash = sha256 ?? await sha256Hex(await data.arrayBuffer())
+      const kept = dedupe ? findIncrementalDuplicate(screen.id36, hash) : undefined
+      if (kept !== undefined) {
+        incrementalDuplicates.set(screen.id36, kept)
+        return
+      }
 
-          const success = await this.downloadWithRetry({
-            screen,
-            zip,
-            signal,
-            retryAttempts,
-            retryBaseDelayMs,
-            throttleDelayMs,
-            port,
+      const path = nameFile(screen, { index: screenIndex.get(screen.id36) ?? 0, total, ext: extension ?? 'png' })
+      incrementalNames.set(screen.id36, path)
+      const stored = embedMetadata ? await withMetadata(screen, data, hash) : { data, sha256: hash }
+      await sink.addFile({ path, ...stored, date: parseLightshotDate(screen.date) })
+    }
+
+    try {
+      if (sink.incremental) {
+        await sink.begin([])
+      }
+      this.send(port, { type: 'status', message: `Downloading ${screens.length} screenshot(s)...` })
+
+      const emitProgress = (currentId: string) => {
+        this.send(port, {
+          type: 'progress',
+          phase: 'downloading',
+          completed: processed,
+          total,
+          currentId,
+          succeeded,
+          failed,
+        })
+      }
+
+      let rateTimer: ReturnType<typeof setInterval> | undefined
+      if (rate) {
+        rate.onChange(({ concurrency: next }) => throttler.setMaxConcurrency(next))
+        rateTimer = setInterval(() => {
+          this.send(port, { type: 'rate', ...rate.snapshot() })
+        }, RATE_SAMPLE_INTERVAL_MS)
+      }
+
+      const applyPause = (paused: boolean) => {
+        if (paused) {
+          throttler.pause()
+          this.send(port, {
+            type: 'log',
+            level: 'info',
+            message: `Paused: no new downloads will start. ${throttler.activeCount} in flight will finish and are kept.`,
           })
+        } else {
+          throttler.resume()
+          this.send(port, { type: 'log', level: 'info', message: 'Resumed.' })
+        }
+      }
+      const stopPauseListener = pause?.onChange(applyPause)
+      if (pause?.paused) {
+        applyPause(true)
+      }
+      // the first task that throws (a sink that cannot write, say) stops the others
+      const tasks = new AbortController()
+      const stopTasks = () => tasks.abort(signal.reason)
+      signal.addEventListener('abort', stopTasks, { once: true })
+      if (signal.aborted) {
+        stopTasks()
+      }
+      // queued tasks must run to observe a cancel, even while paused
+      tasks.signal.addEventListener('abort', () => throttler.resume(), { once: true })
 
-          if (success) {
-            succeeded += 1
-            processed += 1
-            emitProgress(screen.id36)
-          } else {
-            failed += 1
-            processed += 1
-            this.send(port, {
-              type: 'log',
-              level: 'warn',
-              message: `Giving up on ${screen.id36} after ${retryAttempts} attempts.`,
+      try {
+        await Promise.allSettled(
+          screens.map((screen) =>
+            throttler(async () => {
+              tasks.signal.throwIfAborted()
+
+              const outcome = await this.downloadWithRetry({
+                screen,
+                signal: tasks.signal,
+                retryPolicy,
+                timeouts,
+                throttleDelayMs,
+                rate,
+                port,
+              })
+
+              if (outcome.ok) {
+                // outside the retry loop: a journal or sink that cannot write is not worth another fetch
+                const { buffer, image } = outcome
+                const sha256 = await sha256Hex(buffer)
+                await this.journal.saveFile(
+                  job,
+                  { id36: screen.id36, data: buffer, sha256, extension: image.extension, mimeType: image.mimeType },
+                  succeeded + 1
+                )
+                if (sink.incremental) {
+                  await addIncrementally(screen, {
+                    data: new Blob([buffer], { type: image.mimeType }),
+                    sha256,
+                    extension: image.extension,
+                  })
+                }
+                succeeded += 1
+                processed += 1
+                emitProgress(screen.id36)
+              } else {
+                failures.set(screen.id36, {
+                  screen,
+                  kind: outcome.kind,
+                  status: outcome.status,
+                  reason: outcome.reason,
+                })
+                failed += 1
+                processed += 1
+                this.send(port, {
+                  type: 'log',
+                  level: 'warn',
+                  message: `Giving up on ${screen.id36} after ${outcome.attempts} attempt(s).`,
+                })
+                emitProgress(screen.id36)
+              }
+            }).catch((error: unknown) => {
+              if (!tasks.signal.aborted) {
+                tasks.abort(error)
+              }
+              throw error
             })
-            emitProgress(screen.id36)
+          )
+        )
+      } finally {
+        signal.removeEventListener('abort', stopTasks)
+        clearInterval(rateTimer)
+        stopPauseListener?.()
+      }
+
+      // a cancel, or the error of the task that stopped the others
+      signal.throwIfAborted()
+      tasks.signal.throwIfAborted()
+
+      const files = await this.journal.readFiles(job.id)
+      const filesById = new Map(files.map((file) => [file.id36, file]))
+
+      if (sink.incremental) {
+        // files fetched by an earlier, interrupted run of this job
+        for (const screen of job.screens) {
+          const file = filesById.get(screen.id36)
+          if (file && !incrementalNames.has(screen.id36) && !incrementalDuplicates.has(screen.id36)) {
+            signal.throwIfAborted()
+            await addIncrementally(screen, file)
           }
+        }
+      }
+
+      const duplicates = sink.incremental
+        ? incrementalDuplicates
+        : dedupe ? findDuplicates(job.screens, filesById, previousHashes) : new Map<string, string>()
+      const entries = job.screens.flatMap((screen, index) => {
+        const file = filesById.get(screen.id36)
+        return file && !duplicates.has(screen.id36)
+          ? [{
+            screen,
+            file,
+            name: incrementalNames.get(screen.id36) ?? nameFile(screen, { index, total, ext: file.extension ?? 'png' }),
+          }]
+          : []
+      })
+      const entriesById = new Map(entries.map((entry) => [entry.screen.id36, entry]))
+
+      if (duplicates.size) {
+        this.send(port, {
+          type: 'log',
+          level: 'info',
+          message: `Skipping ${duplicates.size} duplicate image(s); the manifest points them to the kept copy.`,
         })
-      )
-    )
+      }
 
-    signal.throwIfAborted()
-    this.send(port, { type: 'status', message: 'Packaging ZIP archive...' })
+      // embedded up front because split archives are planned from the final sizes
+      const embedded = new Map<string, { data: Blob; sha256?: string }>()
+      if (embedMetadata && !sink.incremental) {
+        this.send(port, { type: 'status', message: 'Embedding metadata into images...' })
+        for (const { screen, file } of entries) {
+          signal.throwIfAborted()
+          embedded.set(screen.id36, await withMetadata(screen, file.data, file.sha256))
+        }
+      }
 
-    const archiveBytes = await zip.generateAsync({ type: 'uint8array' })
-    const dataUrl = `data:application/zip;base64,${encodeToBase64(archiveBytes)}`
+      if (!sink.incremental) {
+        await sink.begin(entries.map(({ screen, name, file }) => ({
+          path: name,
+          size: (embedded.get(screen.id36)?.data ?? file.data).size,
+        })))
+      }
 
-    try {
-      const downloadId = await this.triggerDownload(dataUrl)
+      const buildSharedFiles = (): SinkFile[] => {
+        const manifestEntries: ManifestEntry[] = []
+        for (const screen of job.screens) {
+          const entry = entriesById.get(screen.id36)
+          const duplicateOf = duplicates.get(screen.id36)
+
+          if (duplicateOf !== undefined) {
+            const file = filesById.get(screen.id36)
+            const kept = entriesById.get(duplicateOf)
+            manifestEntries.push(
+              createManifestEntry(screen, {
+                status: 'duplicate',
+                duplicate_of: duplicateOf,
+                file: kept?.name,
+                archive: kept ? sink.containerOf(kept.name) : undefined,
+                size: file?.data.size,
+                sha256: file?.sha256,
+                stored_size: storedFiles.get(duplicateOf)?.size,
+                stored_sha256: storedFiles.get(duplicateOf)?.sha256,
+                format: file?.mimeType ?? 'image/png',
+                reason: kept ? undefined : 'Already exported by a previous run',
+              })
+            )
+            continue
+          }
+
+          manifestEntries.push(
+            entry
+              ? createManifestEntry(screen, {
+                status: 'ok',
+                file: entry.name,
+                archive: sink.containerOf(entry.name),
+                size: entry.file.data.size,
+                sha256: entry.file.sha256,
+                stored_size: storedFiles.get(screen.id36)?.size,
+                stored_sha256: storedFiles.get(screen.id36)?.sha256,
+                format: entry.file.mimeType ?? 'image/png',
+              })
+              : createManifestEntry(screen, {
+                status: 'failed',
+                reason: failures.get(screen.id36)?.reason ?? 'Not downloaded',
+              })
+          )
+        }
+
+        return [
+          { path: MANIFEST_JSON_FILENAME, data: buildManifestJson(manifestEntries), shared: true },
+          { path: MANIFEST_CSV_FILENAME, data: buildManifestCsv(manifestEntries), shared: true },
+          { path: GALLERY_VIEWER_FILENAME, data: buildGalleryViewer(manifestEntries), shared: true },
+        ]
+      }
+
+      // the manifest names the archive of every file, so it is rebuilt whenever
+      // making room for the shared files moves screenshots to another volume
+      let sharedFiles = buildSharedFiles()
+      while (sink.reserveShared(sharedFiles.map(({ path, data }) => ({ path, size: data.size })))) {
+        sharedFiles = buildSharedFiles()
+      }
+      for (const file of sharedFiles) {
+        await sink.addFile(file)
+      }
+
+      if (!sink.incremental) {
+        for (const [index, { screen, file, name }] of entries.entries()) {
+          signal.throwIfAborted()
+          const stored = embedded.get(screen.id36) ?? { data: file.data, sha256: file.sha256 }
+          await sink.addFile({ path: name, ...stored, date: parseLightshotDate(screen.date) })
+          this.send(port, {
+            type: 'progress',
+            phase: 'packaging',
+            completed: index + 1,
+            total: entries.length,
+            currentId: screen.id36,
+            bytes: sink.bytesWritten,
+          })
+        }
+      }
+
+      await sink.finalize()
+
+      if (job.recordSync) {
+        await recordExport(
+          account,
+          job.screens.filter((screen) => entriesById.has(screen.id36) || duplicates.has(screen.id36)).map(({ id36 }) => id36),
+          dedupeAcrossRuns
+            ? Object.fromEntries(entries.flatMap(({ screen, file }) => (file.sha256 ? [[file.sha256, screen.id36]] : [])))
+            : undefined,
+          job.screens.filter((screen) => !entriesById.has(screen.id36) && !duplicates.has(screen.id36))
+        )
+      }
+      await this.journal.discard(job.id)
       this.send(port, {
         type: 'done',
         total: succeeded,
         processed,
         succeeded,
         failed,
-        downloadId: downloadId ?? undefined,
+        duplicates: duplicates.size,
+        downloadId: downloadIds[0],
+        downloadIds,
+        failures: [...failures.values()],
+        outputFormat,
+        folder: folder?.name,
       })
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error)
-      this.send(port, { type: 'error', message })
+      await sink.abort().catch(() => {
+        // the original error is what matters
+      })
+      throw error
     }
   }
 
-  private async triggerDownload(url: string): Promise<number | undefined> {
-    return new Promise((resolve, reject) => {
-      chrome.downloads.download(
-        {
-          url,
-          filename: DEFAULT_FILENAME,
-          saveAs: true,
-        },
-        (downloadId) => {
-          const error = chrome.runtime.lastError
-          if (error) {
-            reject(new Error(error.message))
-            return
-          }
-          resolve(downloadId ?? undefined)
-        }
-      )
-    })
-  }
-
   private async downloadWithRetry({
     screen,
-    zip,
     signal,
-    retryAttempts,
-    retryBaseDelayMs,
+    retryPolicy,
+    timeouts,
     throttleDelayMs,
+    rate,
     port,
   }: {
     screen: ScreenMeta;
-    zip: JSZip;
     signal: AbortSignal;
-    retryAttempts: number;
-    retryBaseDelayMs: number;
+    retryPolicy: RetryPolicy;
+    timeouts: AttemptTimeouts;
     throttleDelayMs: number;
-    port: chrome.runtime.Port;
-  }): Promise<boolean> {
-    for (let attempt = 1; attempt <= retryAttempts; attempt += 1) {
+    rate?: AdaptiveRateController;
+    port: ProgressTarget;
+  }): Promise<DownloadOutcome> {
+    for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
+      let attemptScope: AttemptController | undefined
+
       try {
         signal.throwIfAborted()
+        await rate?.waitForSlot(signal)
 
+        const startedAt = Date.now()
+        attemptScope = new AttemptController(signal, timeouts)
         const response = await boundFetch(screen.url, {
-          signal,
+          signal: attemptScope.signal,
           credentials: 'include'
         })
+        attemptScope.touch()
 
         if (!response.ok) {
           if (response.status === 403) {
@@ -280,109 +709,171 @@ export class DownloadService {
             const code = typeof details === 'object' && details ? (details as { code?: unknown }).code : undefined
             if (code === 'account_trouble') {
               throw new NonRetryableError(
-                `Lightshot cannot serve ${screen.id36}: upstream returned account trouble (image missing on server).`
+                `Lightshot cannot serve ${screen.id36}: upstream returned account trouble (image missing on server).`,
+                'account_trouble',
+                response.status
               )
             }
           }
 
-          throw new Error(`Failed to fetch ${screen.id36} (${response.status})`)
+          throw new DownloadError(
+            `Failed to fetch ${screen.id36} (${response.status})`,
+            'http',
+            response.status,
+            parseRetryAfter(response.headers.get('retry-after'))
+          )
+        }
+
+        const buffer = await readBody(response, attemptScope)
+        attemptScope.dispose()
+        rate?.recordSuccess(Date.now() - startedAt)
+        const bytes = new Uint8Array(buffer)
+        const contentType = response.headers.get('content-type')
+
+        if (!bytes.length) {
+          throw new DownloadError(`Lightshot returned an empty body for ${screen.id36}`, 'invalid_content', response.status)
         }
 
-        const buffer = await response.arrayBuffer()
-        const fileOptions: JSZip.JSZipFileOptions = {}
-        const parsedDate = parseLightshotDate(screen.date)
-        if (parsedDate) {
-          fileOptions.date = parsedDate
+        const image = detectImageFormat(bytes, contentType)
+        if (!image) {
+          throw new DownloadError(
+            looksLikeHtml(bytes, contentType)
+              ? `Lightshot returned an HTML page instead of an image for ${screen.id36}`
+              : `Unrecognized image data for ${screen.id36} (${contentType ?? 'no content type'})`,
+            'invalid_content',
+            response.status
+          )
         }
 
-        zip.file(`screenshot_${screen.id36}.png`, buffer, fileOptions)
+        if (image.declaredType) {
+          this.send(port, {
+            type: 'log',
+            level: 'warn',
+            message: `${screen.id36} was served as ${image.declaredType} but is a ${image.format.toUpperCase()}; saving as .${image.extension}.`,
+          })
+        }
 
-        if (throttleDelayMs > 0) {
-          await delay(throttleDelayMs, signal)
+        const pauseMs = rate?.delayMs ?? throttleDelayMs
+        if (pauseMs > 0) {
+          await delay(pauseMs, signal)
         }
 
-        return true
+        return { ok: true, buffer, image }
       } catch (error) {
         if (signal.aborted) {
           throw error
         }
 
-        const nonRetryable = error instanceof NonRetryableError || (error as { retryable?: boolean }).retryable === false
+        const congestion = detectCongestion(error)
+        if (rate && congestion) {
+          rate.recordCongestion(congestion, error instanceof DownloadError ? error.retryAfterMs : undefined)
+        }
+
+        const message = error instanceof Error ? error.message : String(error)
+        const decision = retryPolicy.decide(error, attempt)
 
-        if (attempt < retryAttempts && !nonRetryable) {
-          const backoffTime = retryBaseDelayMs * Math.pow(2, attempt - 1)
-          const message = error instanceof Error ? error.message : String(error)
+        if (decision.retry) {
           this.send(port, {
             type: 'log',
             level: 'warn',
-            message: `Retry ${attempt}/${retryAttempts} for ${screen.id36}: ${message}`,
+            message: decision.category === 'rate_limited'
+              ? `Rate limited on ${screen.id36}, retrying in ${formatSeconds(decision.delayMs)} (${attempt}/${retryPolicy.maxAttempts}).`
+              : `Retry ${attempt}/${retryPolicy.maxAttempts} for ${screen.id36} in ${formatSeconds(decision.delayMs)}: ${message}`,
           })
-          await delay(backoffTime, signal)
+          await delay(decision.delayMs, signal)
         } else {
-          const message = error instanceof Error ? error.message : String(error)
           this.send(port, {
             type: 'log',
             level: 'warn',
-            message: `Final failure for ${screen.id36}: ${message}`,
+            message: decision.category === 'permanent'
+              ? `Permanent failure for ${screen.id36}, not retrying: ${message}`
+              : `Final failure for ${screen.id36}: ${message}`,
           })
-          return false
+          return { ok: false, attempts: attempt, ...classifyFailure(error), reason: message }
         }
+      } finally {
+        attemptScope?.dispose()
       }
     }
 
-    return false
+    return { ok: false, attempts: 0, kind: 'aborted', reason: 'No download attempts were made.' }
   }
 }
 
-const delay = (ms: number, signal: AbortSignal) =>
-  new Promise<void>((resolve, reject) => {
-    if (ms <= 0) {
-      resolve()
-      return
-    }
+const classifyFailure = (error: unknown): Pick<FailedScreen, 'kind' | 'status'> => {
+  if (error instanceof DownloadError) {
+    return { kind: error.kind, status: error.status }
+  }
 
-    let settled = false
-    let timer: ReturnType<typeof setTimeout>
-    const onAbort = () => {
-      if (settled) {
-        return
-      }
-      settled = true
-      clearTimeout(timer)
-      reject(new DOMException('Aborted', 'AbortError'))
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return { kind: 'timeout' }
+  }
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return { kind: 'aborted' }
+  }
+
+  return { kind: 'network' }
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+/**
+ * Maps a failed attempt to the congestion signal fed to the adaptive rate
+ * controller, or null when the failure says nothing about server load.
+ */
+const detectCongestion = (error: unknown): CongestionSignal | null => {
+  if (error instanceof DownloadError) {
+    if (error.status === 429) {
+      return 'rate_limited'
     }
+    return error.status !== undefined && error.status >= 500 ? 'server_error' : null
+  }
 
-    timer = setTimeout(() => {
-      if (settled) {
-        return
-      }
-      settled = true
-      signal.removeEventListener('abort', onAbort)
-      resolve()
-    }, ms)
-
-    signal.addEventListener('abort', onAbort, { once: true })
-  })
-
-const encodeToBase64 = (bytes: Uint8Array): string => {
-  let binary = ''
-  const chunkSize = 0x8000
-  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
-    const chunk = bytes.subarray(offset, offset + chunkSize)
-    binary += String.fromCharCode(...chunk)
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return 'timeout'
   }
-  return btoa(binary)
+
+  return error instanceof TypeError ? 'network' : null
 }
 
-const parseLightshotDate = (value?: string): Date | undefined => {
-  if (!value) {
-    return undefined
+/**
+ * Returns a function that, fed screenshots in order, answers the id of the
+ * copy to keep for each one that duplicates an earlier one (or one exported
+ * by a previous run), and undefined for the first of its kind.
+ */
+const createDuplicateFinder = (previousHashes: Record<string, string>) => {
+  const keptByHash = new Map<string, string>()
+
+  return (id36: string, hash: string): string | undefined => {
+    const previous = previousHashes[hash]
+    const kept = keptByHash.get(hash) ?? (previous !== id36 ? previous : undefined)
+    if (kept === undefined) {
+      keptByHash.set(hash, id36)
+    }
+    return kept
   }
+}
 
-  const parsed = new Date(value)
-  if (!Number.isNaN(parsed.getTime())) {
-    return parsed
+/**
+ * Maps each duplicate id36 to the screenshot that keeps its content: the
+ * first one in gallery order, or the one a previous run exported.
+ */
+const findDuplicates = (
+  screens: ScreenMeta[],
+  filesById: Map<string, JournalFile>,
+  previousHashes: Record<string, string>
+): Map<string, string> => {
+  const findDuplicate = createDuplicateFinder(previousHashes)
+  const duplicates = new Map<string, string>()
+
+  for (const { id36 } of screens) {
+    const hash = filesById.get(id36)?.sha256
+    const kept = hash ? findDuplicate(id36, hash) : undefined
+    if (kept !== undefined) {
+      duplicates.set(id36, kept)
+    }
   }
 
-  return undefined
+  return duplicates
 }
@@ -0,0 +1,96 @@
+import { EXPORTS_STORE, openDatabase, transactionDone } from '../shared/database'
+import { DashboardMessage, FolderWriteResult } from '../shared/protocol'
+
+/** A local directory the export is written into, file by file. */
+export interface FolderTarget {
+  /** Display name of the directory. */
+  readonly name: string
+  writeFile(path: string, data: Blob, sha256: string): Promise<FolderWriteResult>
+}
+
+interface PendingWrite {
+  resolve: (result: FolderWriteResult) => void
+  reject: (error: Error) => void
+}
+
+const FOLDER_CLOSED_MESSAGE = 'The dashboard holding the export folder was closed. Keep it open until the export finishes.'
+
+/**
+ * Write access to a picked directory is granted to the page that picked it, so
+ * that dashboard does the writing. Like archives for the offscreen document,
+ * file data is handed over through IndexedDB and only the key travels over
+ * the port.
+ */
+export class PortFolderTarget implements FolderTarget {
+  private readonly pending = new Map<string, PendingWrite>()
+  private closed = false
+
+  constructor(
+    private readonly port: chrome.runtime.Port,
+    readonly name: string
+  ) {
+    port.onDisconnect.addListener(() => {
+      this.closed = true
+      const keys = [...this.pending.keys()]
+      this.pending.forEach(({ reject }) => reject(new Error(FOLDER_CLOSED_MESSAGE)))
+      this.pending.clear()
+      discardExports(keys).catch(() => {
+        // nothing left to clean up
+      })
+    })
+  }
+
+  async writeFile(path: string, data: Blob, sha256: string): Promise<FolderWriteResult> {
+    if (this.closed) {
+      throw new Error(FOLDER_CLOSED_MESSAGE)
+    }
+
+    const requestId = crypto.randomUUID()
+    const db = await openDatabase()
+    const transaction = db.transaction(EXPORTS_STORE, 'readwrite')
+    transaction.objectStore(EXPORTS_STORE).put(data, requestId)
+    await transactionDone(transaction)
+
+    return new Promise<FolderWriteResult>((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject })
+      try {
+        this.port.postMessage({
+          type: 'folder-write',
+          requestId,
+          path,
+          size: data.size,
+          sha256,
+        } satisfies DashboardMessage)
+      } catch {
+        this.pending.delete(requestId)
+        reject(new Error(FOLDER_CLOSED_MESSAGE))
+      }
+    })
+  }
+
+  /** Settles a write with the page's reply. */
+  complete(requestId: string, result: FolderWriteResult | undefined, error: string | undefined) {
+    const write = this.pending.get(requestId)
+    if (!write) {
+      return
+    }
+
+    this.pending.delete(requestId)
+    if (error || !result) {
+      write.reject(new Error(`Could not write to ${this.name}: ${error ?? 'unknown error'}`))
+    } else {
+      write.resolve(result)
+    }
+  }
+}
+
+const discardExports = async (keys: string[]) => {
+  if (!keys.length) {
+    return
+  }
+
+  const db = await openDatabase()
+  const transaction = db.transaction(EXPORTS_STORE, 'readwrite')
+  keys.forEach((key) => transaction.objectStore(EXPORTS_STORE).delete(key))
+  await transactionDone(transaction)
+}
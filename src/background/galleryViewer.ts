@@ -0,0 +1,218 @@
+import { parseLightshotDate } from '../domain/lightshotClient'
+import { ManifestEntry } from './manifest'
+
+export const GALLERY_VIEWER_FILENAME = 'index.html'
+
+interface ViewerItem {
+  id: string
+  file: string
+  /** ISO timestamp, or null when Lightshot had no usable date. */
+  date: string | null
+  description: string
+  share: string | null
+}
+
+/**
+ * Builds a self-contained gallery page (no network access) listing every
+ * exported screenshot: a thumbnail grid grouped by day, search by description
+ * or id, and a lightbox. Images are referenced by their relative path, so the
+ * page works once the export is extracted (all volumes into one folder).
+ */
+export const buildGalleryViewer = (entries: ManifestEntry[]): Blob => {
+  const items: ViewerItem[] = entries.flatMap((entry) =>
+    entry.file
+      ? [{
+        id: entry.id36,
+        file: entry.file,
+        date: parseLightshotDate(entry.created_at ?? undefined)?.toISOString() ?? null,
+        description: entry.description ?? '',
+        share: entry.share_url && /^https?:\/\//i.test(entry.share_url) ? entry.share_url : null,
+      }]
+      : []
+  )
+
+  // keeps "</script>" in descriptions from closing the data block
+  const data = JSON.stringify(items).replace(/</g, '\\u003c')
+  return new Blob([VIEWER_TEMPLATE.replace('__DATA__', () => data)], { type: 'text/html' })
+}
+
+const VIEWER_TEMPLATE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Lightshot gallery export</title>
+<style>
+  :root { color-scheme: dark; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.5 system-ui, sans-serif; background: #020617; color: #e2e8f0; }
+  header { position: sticky; top: 0; z-index: 1; display: flex; flex-wrap: wrap; gap: 12px; align-items: center; padding: 16px 24px; background: rgba(2, 6, 23, 0.92); border-bottom: 1px solid #1e293b; }
+  h1 { margin: 0; font-size: 18px; }
+  #search { flex: 1; min-width: 200px; padding: 8px 12px; border: 1px solid #334155; border-radius: 10px; background: #0f172a; color: inherit; font: inherit; }
+  #count { color: #94a3b8; font-size: 12px; }
+  main { padding: 8px 24px 48px; }
+  h2 { margin: 24px 0 12px; font-size: 14px; font-weight: 600; color: #94a3b8; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr)); gap: 12px; }
+  .tile { display: flex; flex-direction: column; gap: 6px; padding: 0; border: 1px solid #1e293b; border-radius: 12px; overflow: hidden; background: #0f172a; color: inherit; font: inherit; text-align: left; cursor: pointer; }
+  .tile:hover, .tile:focus-visible { border-color: #6366f1; outline: none; }
+  .tile img { width: 100%; aspect-ratio: 4 / 3; object-fit: cover; background: #1e293b; }
+  .tile span { padding: 0 10px 8px; font-size: 12px; color: #cbd5e1; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .empty { margin-top: 48px; text-align: center; color: #64748b; }
+  #lightbox { position: fixed; inset: 0; z-index: 2; display: none; flex-direction: column; align-items: center; justify-content: center; gap: 12px; padding: 24px; background: rgba(2, 6, 23, 0.95); }
+  #lightbox.open { display: flex; }
+  #lightbox img { max-width: 100%; max-height: calc(100vh - 140px); object-fit: contain; }
+  #lightbox p { margin: 0; max-width: 800px; text-align: center; }
+  #lightbox .meta { color: #94a3b8; font-size: 12px; }
+  #lightbox a { color: #a5b4fc; }
+  .nav { position: absolute; top: 50%; padding: 12px 16px; border: 0; border-radius: 999px; background: #1e293b; color: inherit; font-size: 20px; cursor: pointer; }
+  #prev { left: 16px; }
+  #next { right: 16px; }
+  #close { position: absolute; top: 16px; right: 16px; padding: 6px 12px; border: 0; border-radius: 8px; background: #1e293b; color: inherit; cursor: pointer; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Lightshot gallery</h1>
+  <input id="search" type="search" placeholder="Search by description or id" autofocus>
+  <span id="count"></span>
+</header>
+<main id="groups"></main>
+<div id="lightbox" role="dialog" aria-modal="true">
+  <button id="close" type="button">Close</button>
+  <button id="prev" class="nav" type="button" aria-label="Previous">&#8249;</button>
+  <img id="lightbox-image" alt="">
+  <p id="lightbox-description"></p>
+  <p id="lightbox-meta" class="meta"></p>
+  <button id="next" class="nav" type="button" aria-label="Next">&#8250;</button>
+</div>
+<script id="data" type="application/json">__DATA__</script>
+<script>
+(function () {
+  var items = JSON.parse(document.getElementById('data').textContent)
+  var groups = document.getElementById('groups')
+  var search = document.getElementById('search')
+  var count = document.getElementById('count')
+  var lightbox = document.getElementById('lightbox')
+  var visible = []
+  var current = -1
+
+  var src = function (item) {
+    return item.file.split('/').map(encodeURIComponent).join('/')
+  }
+  var dayKey = function (item) {
+    return item.date ? new Date(item.date).toDateString() : ''
+  }
+  var dayLabel = function (item) {
+    return item.date
+      ? new Date(item.date).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+      : 'Undated'
+  }
+
+  var render = function () {
+    var query = search.value.trim().toLowerCase()
+    visible = items.filter(function (item) {
+      return !query || item.id.toLowerCase().indexOf(query) !== -1 || item.description.toLowerCase().indexOf(query) !== -1
+    })
+    count.textContent = visible.length + ' of ' + items.length + ' screenshot(s)'
+    groups.textContent = ''
+
+    if (!visible.length) {
+      var empty = document.createElement('p')
+      empty.className = 'empty'
+      empty.textContent = 'No screenshots match your search.'
+      groups.appendChild(empty)
+      return
+    }
+
+    var grid = null
+    var lastKey = null
+    visible.forEach(function (item, index) {
+      if (dayKey(item) !== lastKey) {
+        lastKey = dayKey(item)
+        var heading = document.createElement('h2')
+        heading.textContent = dayLabel(item)
+        grid = document.createElement('div')
+        grid.className = 'grid'
+        groups.appendChild(heading)
+        groups.appendChild(grid)
+      }
+
+      var tile = document.createElement('button')
+      tile.type = 'button'
+      tile.className = 'tile'
+      tile.title = item.description || item.id
+      var image = document.createElement('img')
+      image.loading = 'lazy'
+      image.alt = item.description || item.id
+      image.src = src(item)
+      var label = document.createElement('span')
+      label.textContent = item.description || item.id
+      tile.appendChild(image)
+      tile.appendChild(label)
+      tile.addEventListener('click', function () {
+        open(index)
+      })
+      grid.appendChild(tile)
+    })
+  }
+
+  var open = function (index) {
+    current = (index + visible.length) % visible.length
+    var item = visible[current]
+    document.getElementById('lightbox-image').src = src(item)
+    document.getElementById('lightbox-description').textContent = item.description
+    var meta = document.getElementById('lightbox-meta')
+    meta.textContent = item.id + (item.date ? ' \\u2022 ' + new Date(item.date).toLocaleString() : '') + ' \\u2022 '
+    var file = document.createElement('a')
+    file.href = src(item)
+    file.textContent = item.file
+    meta.appendChild(file)
+    if (item.share) {
+      meta.appendChild(document.createTextNode(' \\u2022 '))
+      var share = document.createElement('a')
+      share.href = item.share
+      share.target = '_blank'
+      share.rel = 'noopener'
+      share.textContent = 'Share link'
+      meta.appendChild(share)
+    }
+    lightbox.classList.add('open')
+  }
+
+  var close = function () {
+    lightbox.classList.remove('open')
+    current = -1
+  }
+
+  search.addEventListener('input', render)
+  document.getElementById('close').addEventListener('click', close)
+  document.getElementById('prev').addEventListener('click', function () {
+    open(current - 1)
+  })
+  document.getElementById('next').addEventListener('click', function () {
+    open(current + 1)
+  })
+  lightbox.addEventListener('click', function (event) {
+    if (event.target === lightbox) {
+      close()
+    }
+  })
+  document.addEventListener('keydown', function (event) {
+    if (current === -1) {
+      return
+    }
+    if (event.key === 'Escape') {
+      close()
+    } else if (event.key === 'ArrowLeft') {
+      open(current - 1)
+    } else if (event.key === 'ArrowRight') {
+      open(current + 1)
+    }
+  })
+
+  render()
+})()
+</script>
+</body>
+</html>
+`
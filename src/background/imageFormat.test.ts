@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { detectImageFormat, looksLikeHtml } from './imageFormat'
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0])
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0x10])
+const GIF = new TextEncoder().encode('GIF89a')
+const WEBP = new TextEncoder().encode('RIFF\u0000\u0000\u0000\u0000WEBPVP8 ')
+const HTML = new TextEncoder().encode('\n  <!DOCTYPE html><html><body>Not found</body></html>')
+
+describe('detectImageFormat', () => {
+  it.each([
+    ['png', PNG, 'png', 'image/png'],
+    ['jpeg', JPEG, 'jpg', 'image/jpeg'],
+    ['gif', GIF, 'gif', 'image/gif'],
+    ['webp', WEBP, 'webp', 'image/webp'],
+  ] as const)('recognizes %s by its signature', (format, bytes, extension, mimeType) => {
+    expect(detectImageFormat(bytes, null)).toEqual({ format, extension, mimeType, declaredType: undefined })
+  })
+
+  it('trusts the signature over the Content-Type and records the mismatch', () => {
+    expect(detectImageFormat(JPEG, 'image/png; charset=binary')).toMatchObject({
+      format: 'jpeg',
+      extension: 'jpg',
+      declaredType: 'image/png',
+    })
+  })
+
+  it('does not report a mismatch for aliases of the same type', () => {
+    expect(detectImageFormat(JPEG, 'image/pjpeg')?.declaredType).toBeUndefined()
+  })
+
+  it('records a signature that does not match the declared image type', () => {
+    expect(detectImageFormat(GIF, 'image/webp')).toMatchObject({ format: 'gif', declaredType: 'image/webp' })
+    expect(detectImageFormat(PNG, 'application/octet-stream')).toMatchObject({
+      format: 'png',
+      declaredType: 'application/octet-stream',
+    })
+  })
+
+  it('rejects payloads without a known signature, whatever the Content-Type', () => {
+    expect(detectImageFormat(new Uint8Array([1, 2, 3]), 'image/webp')).toBeNull()
+    expect(detectImageFormat(new Uint8Array([1, 2, 3]), 'application/octet-stream')).toBeNull()
+    expect(detectImageFormat(new Uint8Array(), null)).toBeNull()
+  })
+
+  it('rejects an HTML page served as image/png', () => {
+    expect(detectImageFormat(HTML, 'image/png')).toBeNull()
+  })
+
+  it('rejects partial signatures', () => {
+    expect(detectImageFormat(new TextEncoder().encode('RIFF\u0000\u0000\u0000\u0000WAVEfmt '), 'image/webp')).toBeNull()
+    expect(detectImageFormat(PNG.subarray(0, 4), 'image/png')).toBeNull()
+  })
+})
+
+describe('looksLikeHtml', () => {
+  it('recognizes HTML by its Content-Type or its first tag', () => {
+    expect(looksLikeHtml(PNG, 'text/html; charset=utf-8')).toBe(true)
+    expect(looksLikeHtml(HTML, 'image/png')).toBe(true)
+    expect(looksLikeHtml(new TextEncoder().encode('<?xml version="1.0"?>'), null)).toBe(true)
+  })
+
+  it('does not flag images', () => {
+    expect(looksLikeHtml(PNG, 'image/png')).toBe(false)
+  })
+})
@@ -0,0 +1,76 @@
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp'
+
+export interface DetectedImage {
+  format: ImageFormat
+  extension: string
+  mimeType: string
+  /** Set when the Content-Type header disagrees with the file signature. */
+  declaredType?: string
+}
+
+const IMAGE_TYPES: Record<ImageFormat, { extension: string; mimeType: string }> = {
+  png: { extension: 'png', mimeType: 'image/png' },
+  jpeg: { extension: 'jpg', mimeType: 'image/jpeg' },
+  gif: { extension: 'gif', mimeType: 'image/gif' },
+  webp: { extension: 'webp', mimeType: 'image/webp' },
+}
+
+const MIME_TO_FORMAT: Record<string, ImageFormat> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/pjpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((value, index) => bytes[offset + index] === value)
+
+const sniffSignature = (bytes: Uint8Array): ImageFormat | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png'
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return 'jpeg'
+  }
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) {
+    return 'gif'
+  }
+  // "RIFF" .... "WEBP"
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'webp'
+  }
+  return null
+}
+
+const parseMimeType = (contentType: string | null): string =>
+  (contentType ?? '').split(';')[0].trim().toLowerCase()
+
+/**
+ * Identifies the image format from its magic bytes; the Content-Type header
+ * is only compared against it. Returns null when the payload has no known
+ * signature, whatever the header claims (an error page served as image/png).
+ */
+export const detectImageFormat = (bytes: Uint8Array, contentType: string | null): DetectedImage | null => {
+  const format = sniffSignature(bytes)
+  if (!format) {
+    return null
+  }
+
+  const declaredMime = parseMimeType(contentType)
+  return {
+    format,
+    ...IMAGE_TYPES[format],
+    declaredType: declaredMime && MIME_TO_FORMAT[declaredMime] !== format ? declaredMime : undefined,
+  }
+}
+
+export const looksLikeHtml = (bytes: Uint8Array, contentType: string | null): boolean => {
+  if (parseMimeType(contentType) === 'text/html') {
+    return true
+  }
+
+  const head = new TextDecoder().decode(bytes.subarray(0, 256)).trimStart().toLowerCase()
+  return head.startsWith('<!doctype html') || head.startsWith('<html') || head.startsWith('<?xml')
+}
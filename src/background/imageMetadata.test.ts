@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest'
+import { embedImageMetadata, ImageMetadata } from './imageMetadata'
+import { crc32 } from './zipWriter'
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+const METADATA: ImageMetadata = {
+  id36: 'abc123',
+  date: new Date('2024-05-06T07:08:09Z'),
+  shareUrl: 'https://prnt.sc/abc123',
+  description: 'Кот на клавиатуре',
+}
+
+const concat = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  parts.reduce((offset, part) => {
+    result.set(part, offset)
+    return offset + part.length
+  }, 0)
+  return result
+}
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(data.length + 12)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(textEncoder.encode(type), 4)
+  chunk.set(data, 8)
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)))
+  return chunk
+}
+
+const PNG = concat([
+  new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  pngChunk('IHDR', new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0])),
+  pngChunk('IDAT', new Uint8Array([0x78, 0x9c, 0x63, 0x60, 0x60, 0x60, 0x00, 0x00, 0x00, 0x04, 0x00, 0x01])),
+  pngChunk('IEND', new Uint8Array()),
+])
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const segment = new Uint8Array(payload.length + 4)
+  segment.set([0xff, marker])
+  new DataView(segment.buffer).setUint16(2, payload.length + 2)
+  segment.set(payload, 4)
+  return segment
+}
+
+const JFIF = jpegSegment(0xe0, new Uint8Array([0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]))
+const SCAN = concat([jpegSegment(0xda, new Uint8Array([1, 1, 0, 0, 0x3f, 0])), new Uint8Array([0x12, 0x34, 0xff, 0xd9])])
+const JPEG = concat([new Uint8Array([0xff, 0xd8]), JFIF, SCAN])
+
+const embed = async (bytes: Uint8Array<ArrayBuffer>, metadata = METADATA) => {
+  const { data, dropped } = await embedImageMetadata(new Blob([bytes]), metadata)
+  return { bytes: new Uint8Array(await data.arrayBuffer()), dropped }
+}
+
+const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: { type: string; data: Uint8Array }[] = []
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset)
+    const type = textDecoder.decode(bytes.subarray(offset + 4, offset + 8))
+    expect(view.getUint32(offset + 8 + length), `${type} CRC`).toBe(crc32(bytes.subarray(offset + 4, offset + 8 + length)))
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) })
+    offset += length + 12
+  }
+  return chunks
+}
+
+/** keyword -> text of the tEXt and uncompressed iTXt chunks */
+const readPngText = (bytes: Uint8Array) =>
+  new Map(
+    readPngChunks(bytes)
+      .filter(({ type }) => type === 'tEXt' || type === 'iTXt')
+      .map(({ type, data }) => {
+        const keywordEnd = data.indexOf(0)
+        const keyword = textDecoder.decode(data.subarray(0, keywordEnd))
+        if (type === 'tEXt') {
+          return [keyword, textDecoder.decode(data.subarray(keywordEnd + 1))]
+        }
+        // compression flag and method, then NUL-terminated language and translated keyword
+        const language = data.indexOf(0, keywordEnd + 3)
+        const translated = data.indexOf(0, language + 1)
+        return [keyword, textDecoder.decode(data.subarray(translated + 1))]
+      })
+  )
+
+const readJpegSegments = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const segments: { marker: number; payload: Uint8Array }[] = []
+  for (let offset = 2; bytes[offset + 1] !== 0xda; ) {
+    expect(bytes[offset]).toBe(0xff)
+    const length = view.getUint16(offset + 2)
+    segments.push({ marker: bytes[offset + 1], payload: bytes.subarray(offset + 4, offset + 2 + length) })
+    offset += 2 + length
+  }
+  return segments
+}
+
+describe('embedImageMetadata', () => {
+  it('inserts text chunks with valid CRCs right after IHDR', async () => {
+    const { bytes, dropped } = await embed(PNG)
+    expect(dropped).toEqual([])
+
+    const types = readPngChunks(bytes).map(({ type }) => type)
+    expect(types[0]).toBe('IHDR')
+    expect(types.slice(-2)).toEqual(['IDAT', 'IEND'])
+    expect(types.slice(1, -2)).toEqual(['tEXt', 'tEXt', 'iTXt', 'iTXt', 'iTXt'])
+
+    const text = readPngText(bytes)
+    expect(text.get('Creation Time')).toBe('Mon, 06 May 2024 07:08:09 GMT')
+    expect(text.get('Lightshot ID')).toBe('abc123')
+    expect(text.get('Source')).toBe('https://prnt.sc/abc123')
+    expect(text.get('Description')).toBe('Кот на клавиатуре')
+    expect(text.get('XML:com.adobe.xmp')).toContain('<dc:identifier>abc123</dc:identifier>')
+  })
+
+  it('keeps the original PNG bytes around the inserted chunks', async () => {
+    const { bytes } = await embed(PNG)
+    expect(bytes.subarray(0, 33)).toEqual(PNG.subarray(0, 33))
+    expect(bytes.subarray(bytes.length - (PNG.length - 33))).toEqual(PNG.subarray(33))
+  })
+
+  it('leaves text the PNG already has alone', async () => {
+    const { bytes: once } = await embed(PNG)
+    const { bytes: twice } = await embed(once)
+    expect(twice).toEqual(once)
+  })
+
+  it('only writes the fields that are set', async () => {
+    const { bytes } = await embed(PNG, { id36: 'abc123', shareUrl: ' ', description: null })
+    expect([...readPngText(bytes).keys()]).toEqual(['Lightshot ID', 'XML:com.adobe.xmp'])
+  })
+
+  it('inserts EXIF and XMP segments after the JFIF header', async () => {
+    const { bytes, dropped } = await embed(JPEG)
+    expect(dropped).toEqual([])
+    expect(bytes.subarray(0, 2 + JFIF.length)).toEqual(JPEG.subarray(0, 2 + JFIF.length))
+    expect(bytes.subarray(bytes.length - SCAN.length)).toEqual(SCAN)
+
+    const [app0, exif, xmp] = readJpegSegments(bytes)
+    expect(app0.marker).toBe(0xe0)
+    expect(exif.marker).toBe(0xe1)
+    expect(xmp.marker).toBe(0xe1)
+
+    expect(textDecoder.decode(exif.payload.subarray(0, 6))).toBe('Exif\u0000\u0000')
+    const tiff = exif.payload.subarray(6)
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+    expect(textDecoder.decode(tiff.subarray(0, 2))).toBe('II')
+    expect(view.getUint16(2, true)).toBe(42)
+    const exifText = textDecoder.decode(tiff)
+    expect(exifText).toContain('Кот на клавиатуре\u0000')
+    expect(exifText).toContain('ASCII\u0000\u0000\u0000Lightshot abc123 https://prnt.sc/abc123')
+
+    const xmpText = textDecoder.decode(xmp.payload)
+    expect(xmpText.startsWith('http://ns.adobe.com/xap/1.0/\u0000<?xpacket')).toBe(true)
+    expect(xmpText).toContain('<dc:source>https://prnt.sc/abc123</dc:source>')
+  })
+
+  it('leaves EXIF and XMP the JPEG already has alone', async () => {
+    const { bytes: once } = await embed(JPEG)
+    const { bytes: twice } = await embed(once)
+    expect(twice).toEqual(once)
+  })
+
+  it('reports segments that exceed the JPEG size limit instead of writing them', async () => {
+    const { bytes, dropped } = await embed(JPEG, { ...METADATA, shareUrl: `https://prnt.sc/${'x'.repeat(70_000)}` })
+    expect(dropped).toEqual(['EXIF', 'XMP'])
+    expect(bytes).toEqual(JPEG)
+  })
+
+  it('returns other formats unchanged', async () => {
+    const gif = textEncoder.encode('GIF89a')
+    const { bytes, dropped } = await embed(gif)
+    expect(bytes).toEqual(gif)
+    expect(dropped).toEqual([])
+  })
+})
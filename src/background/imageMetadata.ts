@@ -0,0 +1,378 @@
+import { detectImageFormat } from './imageFormat'
+import { crc32 } from './zipWriter'
+
+export interface ImageMetadata {
+  id36: string
+  date?: Date
+  shareUrl?: string | null
+  description?: string | null
+}
+
+export interface EmbedResult {
+  data: Blob
+  /** Metadata blocks left out because they do not fit, e.g. 'EXIF' or 'XMP'. */
+  dropped: string[]
+}
+
+interface Insertion {
+  at: number
+  parts: Uint8Array<ArrayBuffer>[]
+  dropped: string[]
+}
+
+interface IfdEntry {
+  tag: number
+  type: number
+  count: number
+  value: Uint8Array
+}
+
+const PNG_SIGNATURE_LENGTH = 8
+// signature + IHDR (length, type, 13 bytes of data, CRC)
+const PNG_AFTER_IHDR = PNG_SIGNATURE_LENGTH + 8 + 13 + 4
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp'
+
+const JPEG_APP0 = 0xe0
+const JPEG_APP1 = 0xe1
+const JPEG_SOS = 0xda
+// the segment length field counts itself
+const JPEG_MAX_SEGMENT_PAYLOAD = 0xffff - 2
+const EXIF_HEADER = 'Exif\u0000\u0000'
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\u0000'
+
+// keeps the EXIF and XMP segments of a JPEG well under their 64 KB limit
+const MAX_DESCRIPTION_LENGTH = 8000
+
+const TIFF_ASCII = 2
+const TIFF_LONG = 4
+const TIFF_UNDEFINED = 7
+
+const TAG_IMAGE_DESCRIPTION = 0x010e
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_EXIF_VERSION = 0x9000
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_DATE_TIME_DIGITIZED = 0x9004
+const TAG_OFFSET_TIME = 0x9010
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011
+const TAG_USER_COMMENT = 0x9286
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+/**
+ * Writes the capture date, Lightshot id, share URL and description into the
+ * image itself: tEXt/iTXt chunks and XMP for PNG, EXIF and XMP segments for
+ * JPEG. Metadata the file already carries is left alone, and other formats
+ * (or files that do not parse) are returned unchanged. The pixel data is
+ * never re-encoded; the new bytes are spliced in front of it.
+ */
+export const embedImageMetadata = async (data: Blob, metadata: ImageMetadata): Promise<EmbedResult> => {
+  const bytes = new Uint8Array(await data.arrayBuffer())
+  const cleaned = {
+    ...metadata,
+    description: metadata.description?.trim().slice(0, MAX_DESCRIPTION_LENGTH) || null,
+    shareUrl: metadata.shareUrl?.trim() || null,
+  }
+
+  const insertion = (() => {
+    switch (detectImageFormat(bytes, null)?.format) {
+      case 'png':
+        return pngInsertion(bytes, cleaned)
+      case 'jpeg':
+        return jpegInsertion(bytes, cleaned)
+      default:
+        return null
+    }
+  })()
+
+  if (!insertion || !insertion.parts.length) {
+    return { data, dropped: insertion?.dropped ?? [] }
+  }
+  return {
+    data: new Blob([data.slice(0, insertion.at), ...insertion.parts, data.slice(insertion.at)], { type: data.type }),
+    dropped: insertion.dropped,
+  }
+}
+
+const pngInsertion = (bytes: Uint8Array, metadata: ImageMetadata): Insertion | null => {
+  if (bytes.length < PNG_AFTER_IHDR || readAscii(bytes, 12, 4) !== 'IHDR') {
+    return null
+  }
+
+  // text chunks the file already has are kept; tools read the first one they find
+  const keywords = new Set<string>()
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  for (let offset = PNG_SIGNATURE_LENGTH; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset)
+    const type = readAscii(bytes, offset + 4, 4)
+    if (type === 'IEND') {
+      break
+    }
+    if (type === 'tEXt' || type === 'iTXt' || type === 'zTXt') {
+      const data = bytes.subarray(offset + 8, offset + 8 + length)
+      keywords.add(readAscii(data, 0, Math.max(data.indexOf(0), 0)))
+    }
+    offset += length + 12
+  }
+
+  const candidates: [string, string | null | undefined, typeof pngTextChunk][] = [
+    // the PNG spec asks for RFC 1123 dates in "Creation Time"
+    ['Creation Time', metadata.date?.toUTCString(), pngTextChunk],
+    ['Lightshot ID', metadata.id36, pngTextChunk],
+    ['Source', metadata.shareUrl, pngInternationalTextChunk],
+    ['Description', metadata.description, pngInternationalTextChunk],
+    [PNG_XMP_KEYWORD, buildXmpPacket(metadata), pngInternationalTextChunk],
+  ]
+  const parts = candidates.flatMap(([keyword, text, encode]) => (text && !keywords.has(keyword) ? [encode(keyword, text)] : []))
+  return { at: PNG_AFTER_IHDR, parts, dropped: [] }
+}
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const chunk = new Uint8Array(data.length + 12)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(textEncoder.encode(type), 4)
+  chunk.set(data, 8)
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)))
+  return chunk
+}
+
+/** tEXt is Latin-1; only used for values that are plain ASCII. */
+const pngTextChunk = (keyword: string, text: string): Uint8Array<ArrayBuffer> =>
+  pngChunk('tEXt', textEncoder.encode(`${keyword}\u0000${stripControlCharacters(text)}`))
+
+/** iTXt: keyword, NUL, uncompressed, empty language and translated keyword, UTF-8 text. */
+const pngInternationalTextChunk = (keyword: string, text: string): Uint8Array<ArrayBuffer> =>
+  pngChunk('iTXt', textEncoder.encode(`${keyword}\u0000\u0000\u0000\u0000\u0000${text.replace(/\u0000/g, '')}`))
+
+const jpegInsertion = (bytes: Uint8Array, metadata: ImageMetadata): Insertion | null => {
+  let hasExif = false
+  let hasXmp = false
+  let at = 2
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  for (let offset = 2; offset + 4 <= bytes.length;) {
+    if (bytes[offset] !== 0xff) {
+      return null
+    }
+    const marker = bytes[offset + 1]
+    // fill bytes before a marker
+    if (marker === 0xff) {
+      offset += 1
+      continue
+    }
+    if (marker === JPEG_SOS) {
+      break
+    }
+
+    const length = view.getUint16(offset + 2)
+    if (marker === JPEG_APP0 && offset === 2 && readAscii(bytes, offset + 4, 5) === 'JFIF\u0000') {
+      // JFIF requires its APP0 segment to stay first
+      at = offset + 2 + length
+    }
+    if (marker === JPEG_APP1) {
+      hasExif ||= readAscii(bytes, offset + 4, EXIF_HEADER.length) === EXIF_HEADER
+      hasXmp ||= readAscii(bytes, offset + 4, XMP_HEADER.length) === XMP_HEADER
+    }
+    offset += 2 + length
+  }
+
+  if (at > bytes.length) {
+    return null
+  }
+
+  const insertion: Insertion = { at, parts: [], dropped: [] }
+  const addSegment = (name: string, payload: Uint8Array) => {
+    if (payload.length > JPEG_MAX_SEGMENT_PAYLOAD) {
+      insertion.dropped.push(name)
+      return
+    }
+    insertion.parts.push(jpegSegment(JPEG_APP1, payload))
+  }
+
+  if (!hasExif) {
+    addSegment('EXIF', concatBytes([textEncoder.encode(EXIF_HEADER), buildExif(metadata)]))
+  }
+  if (!hasXmp) {
+    addSegment('XMP', textEncoder.encode(`${XMP_HEADER}${buildXmpPacket(metadata)}`))
+  }
+  return insertion
+}
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const segment = new Uint8Array(payload.length + 4)
+  const view = new DataView(segment.buffer)
+  segment[0] = 0xff
+  segment[1] = marker
+  view.setUint16(2, payload.length + 2)
+  segment.set(payload, 4)
+  return segment
+}
+
+/** Little-endian TIFF structure with IFD0 and an Exif sub-IFD. */
+const buildExif = ({ id36, date, shareUrl, description }: ImageMetadata): Uint8Array => {
+  const ifd0: IfdEntry[] = []
+  const exif: IfdEntry[] = [
+    { tag: TAG_EXIF_VERSION, type: TIFF_UNDEFINED, count: 4, value: textEncoder.encode('0232') },
+  ]
+
+  if (description) {
+    ifd0.push(asciiEntry(TAG_IMAGE_DESCRIPTION, description))
+  }
+  if (date) {
+    const timestamp = formatExifDate(date)
+    const offset = formatUtcOffset(date)
+    ifd0.push(asciiEntry(TAG_DATE_TIME, timestamp))
+    exif.push(
+      asciiEntry(TAG_DATE_TIME_ORIGINAL, timestamp),
+      asciiEntry(TAG_DATE_TIME_DIGITIZED, timestamp),
+      asciiEntry(TAG_OFFSET_TIME, offset),
+      asciiEntry(TAG_OFFSET_TIME_ORIGINAL, offset)
+    )
+  }
+  exif.push(userCommentEntry(['Lightshot', id36, shareUrl].filter(Boolean).join(' ')))
+
+  const ifd0Offset = 8
+  const pointer = (value: number): IfdEntry => ({ tag: TAG_EXIF_IFD, type: TIFF_LONG, count: 1, value: uint32(value) })
+  // the pointer has a fixed size, so a first pass tells where the Exif IFD starts
+  const exifOffset = ifd0Offset + encodeIfd([...ifd0, pointer(0)], ifd0Offset).length
+
+  const header = new Uint8Array(8)
+  const view = new DataView(header.buffer)
+  header.set(textEncoder.encode('II'))
+  view.setUint16(2, 42, true)
+  view.setUint32(4, ifd0Offset, true)
+
+  return concatBytes([
+    header,
+    encodeIfd([...ifd0, pointer(exifOffset)], ifd0Offset),
+    encodeIfd(exif, exifOffset),
+  ])
+}
+
+/** Encodes one IFD followed by the values that do not fit in their entry. */
+const encodeIfd = (entries: IfdEntry[], offset: number): Uint8Array => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag)
+  const tableLength = 2 + sorted.length * 12 + 4
+  const dataLength = sorted.reduce((sum, { value }) => sum + (value.length > 4 ? value.length + (value.length % 2) : 0), 0)
+
+  const ifd = new Uint8Array(tableLength + dataLength)
+  const view = new DataView(ifd.buffer)
+  view.setUint16(0, sorted.length, true)
+
+  let dataOffset = tableLength
+  sorted.forEach(({ tag, type, count, value }, index) => {
+    const entry = 2 + index * 12
+    view.setUint16(entry, tag, true)
+    view.setUint16(entry + 2, type, true)
+    view.setUint32(entry + 4, count, true)
+    if (value.length <= 4) {
+      ifd.set(value, entry + 8)
+      return
+    }
+    view.setUint32(entry + 8, offset + dataOffset, true)
+    ifd.set(value, dataOffset)
+    // values start on a word boundary
+    dataOffset += value.length + (value.length % 2)
+  })
+  // next IFD offset stays 0: there is no thumbnail
+  return ifd
+}
+
+/** EXIF ASCII is NUL-terminated; UTF-8 is written as is, which current readers accept. */
+const asciiEntry = (tag: number, text: string): IfdEntry => {
+  const value = textEncoder.encode(`${stripControlCharacters(text)}\u0000`)
+  return { tag, type: TIFF_ASCII, count: value.length, value }
+}
+
+/** UserComment starts with an 8-byte character code; non-ASCII text goes in as UTF-16. */
+const userCommentEntry = (text: string): IfdEntry => {
+  const clean = stripControlCharacters(text)
+  const isAscii = /^[\x00-\x7f]*$/.test(clean)
+  const body = isAscii ? textEncoder.encode(clean) : encodeUtf16Le(clean)
+  const value = concatBytes([textEncoder.encode(isAscii ? 'ASCII\u0000\u0000\u0000' : 'UNICODE\u0000'), body])
+  return { tag: TAG_USER_COMMENT, type: TIFF_UNDEFINED, count: value.length, value }
+}
+
+const buildXmpPacket = ({ id36, date, shareUrl, description }: ImageMetadata): string => {
+  const properties = [
+    date ? `<xmp:CreateDate>${formatXmpDate(date)}</xmp:CreateDate>` : '',
+    date ? `<photoshop:DateCreated>${formatXmpDate(date)}</photoshop:DateCreated>` : '',
+    `<dc:identifier>${escapeXml(id36)}</dc:identifier>`,
+    shareUrl ? `<dc:source>${escapeXml(shareUrl)}</dc:source>` : '',
+    description
+      ? `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(description)}</rdf:li></rdf:Alt></dc:description>`
+      : '',
+  ].filter(Boolean)
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""'
+      + ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"'
+      + ' xmlns:dc="http://purl.org/dc/elements/1.1/"'
+      + ' xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/">',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n')
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+/** "YYYY:MM:DD HH:MM:SS" in local time; the offset goes in its own tag. */
+const formatExifDate = (date: Date): string =>
+  `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} `
+  + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+
+const formatUtcOffset = (date: Date): string => {
+  const minutes = -date.getTimezoneOffset()
+  const sign = minutes < 0 ? '-' : '+'
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`
+}
+
+/** ISO 8601 in local time with its UTC offset, as photo managers expect in XMP. */
+const formatXmpDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T`
+  + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}${formatUtcOffset(date)}`
+
+const stripControlCharacters = (text: string) => text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, '')
+
+const escapeXml = (text: string) =>
+  stripControlCharacters(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  textDecoder.decode(bytes.subarray(offset, offset + length))
+
+const uint32 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4)
+  new DataView(bytes.buffer).setUint32(0, value, true)
+  return bytes
+}
+
+const encodeUtf16Le = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length * 2)
+  const view = new DataView(bytes.buffer)
+  for (let index = 0; index < text.length; index += 1) {
+    view.setUint16(index * 2, text.charCodeAt(index), true)
+  }
+  return bytes
+}
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
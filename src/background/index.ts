@@ -1,93 +1,293 @@
-import { DownloadService } from './downloadService'
+import { DownloadOptions, DownloadService, INTERRUPTED_REASON, ProgressTarget } from './downloadService'
+import { FolderTarget, PortFolderTarget } from './folderOutput'
+import { JobManager } from './jobManager'
+import { createRetryPolicy } from './retryPolicy'
 import { ScreenMeta } from '../domain/lightshotClient'
+import { normalizeNaming } from '../shared/filenameTemplate'
+import { JobSettingsSnapshot, JobSource } from '../shared/jobHistory'
+import {
+  DASHBOARD_PORT_NAME,
+  ErrorMessage,
+  GALLERY_PORT_NAME,
+  parseDashboardRequest,
+  parseGalleryRequest,
+  parseHello,
+  ParseResult,
+  PROTOCOL_VERSION,
+  RequestSettings,
+  WelcomeMessage,
+} from '../shared/protocol'
+import { hasActiveFilter, normalizeScreenFilter } from '../shared/screenFilter'
+import { OUTPUT_FORMATS, OutputFormat } from '../shared/settings'
 
 const downloadService = new DownloadService()
+const jobManager = new JobManager()
 
 const DEFAULT_CONCURRENCY = 4
 const DEFAULT_RETRY_ATTEMPTS = 3
 const DEFAULT_RETRY_BASE_DELAY_MS = 500
+const MAX_RETRY_ATTEMPTS = 10
+const MAX_RETRY_BASE_DELAY_MS = 60_000
+const DEFAULT_TIMEOUT_SECONDS = 30
+const DEFAULT_STALL_TIMEOUT_SECONDS = 15
+const MAX_TIMEOUT_SECONDS = 600
 const DEFAULT_SEQUENTIAL_THROTTLE_MS = 150
 const MAX_THROTTLE_MS = 5000
+const BYTES_PER_MB = 1024 * 1024
+const SUPPLEMENTARY_ARCHIVE_BASE_NAME = 'lightshot-gallery-retry'
 
-type DownloadMessage = {
-  concurrency?: unknown
-  sequential?: unknown
-  throttleMs?: unknown
+type DownloadMessage = RequestSettings & {
   screens?: ScreenMeta[]
+  account?: string
+  supplementary?: boolean
 }
 
-chrome.runtime.onConnect.addListener((port) => {
-  if (port.name !== 'lightshot-download') {
-    return
+/**
+ * Runs the protocol handshake on a freshly connected port, then hands every
+ * well-formed request to `onRequest`. Malformed requests get an error reply.
+ */
+const servePort = <T>(
+  port: chrome.runtime.Port,
+  parse: (value: unknown) => ParseResult<T>,
+  { onReady, onRequest }: { onReady?: () => void; onRequest: (request: T) => void }
+) => {
+  let ready = false
+
+  port.onMessage.addListener((message: unknown) => {
+    const parsed = ready ? parse(message) : parseHello(message)
+    if (!parsed.ok) {
+      port.postMessage({ type: 'error', code: parsed.code, message: parsed.error } satisfies ErrorMessage)
+      if (parsed.code === 'unsupported_version') {
+        port.disconnect()
+      }
+      return
+    }
+
+    if (ready) {
+      onRequest(parsed.value as T)
+      return
+    }
+
+    ready = true
+    port.postMessage({ type: 'welcome', version: PROTOCOL_VERSION } satisfies WelcomeMessage)
+    onReady?.()
+  })
+}
+
+/** Queues a download job; it starts once the job manager has room for it. */
+const enqueueJob = (
+  source: JobSource,
+  options: DownloadMessage | undefined,
+  { subscriber, resumeJobId, folder }: { subscriber?: ProgressTarget; resumeJobId?: string; folder?: FolderTarget } = {}
+): string => {
+  const { options: runOptions, settings } = buildRunOptions(options)
+
+  return jobManager.enqueue(
+    source,
+    ({ signal, pause, target }) =>
+      downloadService.run({
+        ...runOptions,
+        signal,
+        pause,
+        port: target,
+        screens: resumeJobId ? undefined : options?.screens,
+        resumeJobId,
+        folder,
+      }),
+    { subscriber, settings: { ...settings, resumeJobId, folder: folder?.name }, account: runOptions.account }
+  )
+}
+
+const buildRunOptions = (
+  options?: DownloadMessage
+): { options: Omit<DownloadOptions, 'signal' | 'pause' | 'port'>; settings: JobSettingsSnapshot } => {
+  const isSequential = Boolean(options?.sequential)
+  const normalizedConcurrency = normalizeConcurrency(options?.concurrency)
+  const concurrency = isSequential ? 1 : normalizedConcurrency
+  const throttleMs = normalizeThrottle(options?.throttleMs)
+  const throttleDelayMs = concurrency === 1 ? Math.max(throttleMs, DEFAULT_SEQUENTIAL_THROTTLE_MS) : throttleMs
+  const retryAttempts = normalizeRetryAttempts(options?.retryAttempts)
+  const retryBaseDelayMs = normalizeRetryBaseDelay(options?.retryBaseDelayMs)
+  const timeouts = {
+    timeoutMs: normalizeTimeout(options?.timeoutSeconds, DEFAULT_TIMEOUT_SECONDS) * 1000,
+    stallTimeoutMs: normalizeTimeout(options?.stallTimeoutSeconds, DEFAULT_STALL_TIMEOUT_SECONDS) * 1000,
   }
+  const naming = normalizeNaming({ template: options?.filenameTemplate, folderLayout: options?.folderLayout })
+  const filter = normalizeScreenFilter(options?.filter)
+  const adaptive = options?.adaptive === true
+  const onlyNew = options?.onlyNew === true
+  const dedupe = options?.dedupe === true
+  const dedupeAcrossRuns = dedupe && options?.dedupeAcrossRuns === true
+  const embedMetadata = options?.embedMetadata === true
+  const maxArchiveBytes = normalizeLimit(options?.maxArchiveMb) * BYTES_PER_MB
+  const maxFilesPerArchive = normalizeLimit(options?.maxFilesPerArchive)
+  const outputFormat = normalizeOutputFormat(options?.outputFormat)
+  const supplementary = options?.supplementary === true
+  // picked, filtered and retry runs export only part of what is new
+  const picked = options?.pick === true && options.screens !== undefined
+  const recordSync = !supplementary && !picked && !hasActiveFilter(filter)
 
-  let controller: AbortController | null = null
-  let activeTask: Promise<void> | null = null
+  return {
+    options: {
+      concurrency,
+      retryPolicy: createRetryPolicy({ maxAttempts: retryAttempts, baseDelayMs: retryBaseDelayMs }),
+      timeouts,
+      throttleDelayMs,
+      adaptive,
+      account: options?.account,
+      onlyNew,
+      recordSync,
+      maxArchiveBytes,
+      maxFilesPerArchive,
+      outputFormat,
+      naming,
+      dedupe,
+      dedupeAcrossRuns,
+      embedMetadata,
+      filter,
+      archiveBaseName: supplementary ? SUPPLEMENTARY_ARCHIVE_BASE_NAME : undefined,
+    },
+    settings: {
+      concurrency,
+      throttleDelayMs,
+      adaptive,
+      retryAttempts,
+      retryBaseDelayMs,
+      ...timeouts,
+      maxArchiveBytes,
+      maxFilesPerArchive,
+      outputFormat,
+      onlyNew,
+      dedupe,
+      dedupeAcrossRuns,
+      embedMetadata,
+      filenameTemplate: naming.template,
+      folderLayout: naming.folderLayout,
+      filter,
+      supplementary,
+    },
+  }
+}
 
-  const cleanup = () => {
-    controller = null
-    activeTask = null
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== GALLERY_PORT_NAME) {
+    return
   }
 
-  const startDownload = (options?: DownloadMessage) => {
-    if (activeTask) {
-      port.postMessage({ type: 'error', message: 'A download is already running.' })
+  // the job this tab started or attached to
+  let runId: string | null = null
+  let ownsJob = false
+
+  const startDownload = (options?: DownloadMessage, resumeJobId?: string) => {
+    if (runId && jobManager.has(runId)) {
+      port.postMessage({ type: 'error', code: 'busy', message: 'This tab already has a download running.' } satisfies ErrorMessage)
       return
     }
 
-    const isSequential = Boolean(options?.sequential)
-    const normalizedConcurrency = normalizeConcurrency(options?.concurrency)
-    const concurrency = isSequential ? 1 : normalizedConcurrency
-    const throttleMs = normalizeThrottle(options?.throttleMs)
-    const throttleDelayMs = concurrency === 1 ? Math.max(throttleMs, DEFAULT_SEQUENTIAL_THROTTLE_MS) : throttleMs
-
-    controller = new AbortController()
-
-    activeTask = downloadService
-      .run({
-        concurrency,
-        signal: controller.signal,
-        port,
-        retryAttempts: DEFAULT_RETRY_ATTEMPTS,
-        retryBaseDelayMs: DEFAULT_RETRY_BASE_DELAY_MS,
-        throttleDelayMs,
-        screens: options?.screens,
-      })
-      .catch((error) => {
-        if (controller?.signal.aborted) {
-          return
-        }
-
-        const message = error instanceof Error ? error.message : String(error)
-        port.postMessage({ type: 'error', message })
-      })
-      .finally(() => {
-        cleanup()
-      })
+    runId = enqueueJob('gallery', options, { subscriber: port, resumeJobId })
+    ownsJob = true
   }
 
-  const cancelDownload = () => {
-    if (!controller) {
+  const attachToJob = (requestedRunId?: string) => {
+    const attached = jobManager.attach(port, requestedRunId)
+    if (!attached) {
+      port.postMessage({ type: 'error', code: 'not_found', message: 'No download is running.' } satisfies ErrorMessage)
       return
     }
-    controller.abort()
+
+    runId = attached
+    ownsJob = false
   }
 
-  port.onMessage.addListener((message) => {
-    switch (message?.type) {
-      case 'download':
-        startDownload(message)
-        break
-      case 'cancel':
-        cancelDownload()
-        break
-      default:
-        break
-    }
+  servePort(port, parseGalleryRequest, {
+    onRequest: (request) => {
+      switch (request.type) {
+        case 'download':
+          startDownload(request)
+          break
+        case 'continue':
+          startDownload(request, request.jobId)
+          break
+        case 'discard':
+          downloadService
+            .discardInterrupted(request.jobId)
+            .catch((error) => {
+              const message = error instanceof Error ? error.message : String(error)
+              port.postMessage({ type: 'error', code: 'busy', message } satisfies ErrorMessage)
+            })
+            .finally(() => port.disconnect())
+          break
+        case 'attach':
+          attachToJob(request.runId)
+          break
+        case 'pause':
+          if (runId) {
+            jobManager.pause(runId)
+          }
+          break
+        case 'resume':
+          if (runId) {
+            jobManager.resume(runId)
+          }
+          break
+        case 'cancel':
+          if (runId) {
+            jobManager.cancel(runId)
+          }
+          break
+      }
+    },
   })
 
+  // closing the tab that started a job interrupts it (it stays resumable);
+  // tabs that only attached leave it running
   port.onDisconnect.addListener(() => {
-    cancelDownload()
+    if (runId && ownsJob) {
+      jobManager.cancel(runId, INTERRUPTED_REASON)
+    }
+  })
+})
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== DASHBOARD_PORT_NAME) {
+    return
+  }
+
+  // folder exports started from this page, which holds the directory handle
+  const folderTargets = new Set<PortFolderTarget>()
+
+  servePort(port, parseDashboardRequest, {
+    onReady: () => jobManager.attachDashboard(port),
+    onRequest: (request) => {
+      if (request.type === 'start') {
+        const folder = request.folder ? new PortFolderTarget(port, request.folder) : undefined
+        if (folder) {
+          folderTargets.add(folder)
+        }
+        enqueueJob('dashboard', request.settings, { folder })
+        return
+      }
+      if (request.type === 'folder-written') {
+        folderTargets.forEach((folder) => folder.complete(request.requestId, request.result, request.error))
+        return
+      }
+      if (!jobManager.has(request.runId)) {
+        port.postMessage({ type: 'error', code: 'not_found', message: 'That job has already finished.' } satisfies ErrorMessage)
+        return
+      }
+
+      switch (request.type) {
+        case 'pause':
+          jobManager.pause(request.runId)
+          break
+        case 'resume':
+          jobManager.resume(request.runId)
+          break
+        case 'cancel':
+          jobManager.cancel(request.runId)
+          break
+      }
+    },
   })
 })
 
@@ -109,14 +309,67 @@ const normalizeThrottle = (value: unknown): number => {
   return Math.min(Math.floor(parsed), MAX_THROTTLE_MS)
 }
 
+const normalizeRetryAttempts = (value: unknown): number => {
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed)) {
+    return DEFAULT_RETRY_ATTEMPTS
+  }
+
+  return Math.min(MAX_RETRY_ATTEMPTS, Math.max(1, Math.floor(parsed)))
+}
+
+const normalizeRetryBaseDelay = (value: unknown): number => {
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return DEFAULT_RETRY_BASE_DELAY_MS
+  }
+
+  return Math.min(Math.floor(parsed), MAX_RETRY_BASE_DELAY_MS)
+}
+
+// 0 disables the timeout
+const normalizeTimeout = (value: unknown, fallback: number): number => {
+  const parsed = Number(value)
+  if (value === undefined || value === null || value === '' || !Number.isFinite(parsed) || parsed < 0) {
+    return fallback
+  }
+
+  return Math.min(Math.floor(parsed), MAX_TIMEOUT_SECONDS)
+}
+
+const normalizeLimit = (value: unknown): number => {
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return 0
+  }
+
+  return Math.floor(parsed)
+}
+
+const normalizeOutputFormat = (value: unknown): OutputFormat =>
+  OUTPUT_FORMATS.includes(value as OutputFormat) ? (value as OutputFormat) : 'zip'
+
 const openCreditsPage = async () => {
   const url = chrome.runtime.getURL('credits/index.html')
   await chrome.tabs.create({ url })
 }
 
+const openDashboard = async () => {
+  const url = chrome.runtime.getURL('dashboard/index.html')
+  const [existing] = await chrome.tabs.query({ url })
+  if (existing?.id !== undefined) {
+    await chrome.tabs.update(existing.id, { active: true })
+    if (existing.windowId !== undefined) {
+      await chrome.windows.update(existing.windowId, { focused: true })
+    }
+    return
+  }
+  await chrome.tabs.create({ url })
+}
+
 chrome.action.onClicked.addListener(() => {
-  openCreditsPage().catch((error) => {
-    console.error('Failed to open credits page', error)
+  openDashboard().catch((error) => {
+    console.error('Failed to open dashboard', error)
   })
 })
 
@@ -0,0 +1,147 @@
+import { ScreenMeta } from '../domain/lightshotClient'
+import {
+  FILES_BY_JOB_INDEX,
+  FILES_STORE,
+  JOBS_STORE,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from '../shared/database'
+import { removePendingJob, writePendingJob } from '../shared/pendingJob'
+
+export interface JournalJob {
+  id: string
+  createdAt: number
+  screens: ScreenMeta[]
+  account: string
+  /** Whether finishing the job updates the account's sync state (see `DownloadOptions.recordSync`). */
+  recordSync?: boolean
+}
+
+export interface JournalFile {
+  jobId: string
+  id36: string
+  data: Blob
+  sha256?: string
+  extension?: string
+  mimeType?: string
+}
+
+/**
+ * Persists download jobs in IndexedDB so an interrupted run (worker eviction,
+ * browser restart, closed tab) can pick up where it stopped. A journal stays
+ * until its job finishes, is cancelled, or the user discards it; summaries
+ * are mirrored in `chrome.storage.local` so the content script can offer to
+ * resume them.
+ */
+export class JobJournal {
+  // jobs a run in this worker is currently writing to
+  private readonly inUse = new Set<string>()
+
+  async create(screens: ScreenMeta[], account: string, recordSync = false): Promise<JournalJob> {
+    const job: JournalJob = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      screens,
+      account,
+      recordSync,
+    }
+
+    this.inUse.add(job.id)
+    const db = await openDatabase()
+    const transaction = db.transaction(JOBS_STORE, 'readwrite')
+    transaction.objectStore(JOBS_STORE).put(job)
+    await transactionDone(transaction)
+
+    await writePendingJob({
+      id: job.id,
+      total: screens.length,
+      completed: 0,
+      createdAt: job.createdAt,
+      updatedAt: job.createdAt,
+    })
+
+    return job
+  }
+
+  async load(jobId: string): Promise<JournalJob | null> {
+    const db = await openDatabase()
+    const job = await requestToPromise<JournalJob | undefined>(
+      db.transaction(JOBS_STORE, 'readonly').objectStore(JOBS_STORE).get(jobId)
+    )
+    if (job) {
+      this.inUse.add(job.id)
+    }
+    return job ?? null
+  }
+
+  /** Marks a job as no longer written to; it stays on disk until resumed or discarded. */
+  release(jobId: string) {
+    this.inUse.delete(jobId)
+  }
+
+  async completedIds(jobId: string): Promise<Set<string>> {
+    const db = await openDatabase()
+    const keys = await requestToPromise(
+      db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE).index(FILES_BY_JOB_INDEX).getAllKeys(jobId)
+    )
+    return new Set(keys.map((key) => String((key as [string, string])[1])))
+  }
+
+  async saveFile(
+    job: JournalJob,
+    { id36, data, sha256, extension, mimeType }: {
+      id36: string
+      data: ArrayBuffer
+      sha256: string
+      extension: string
+      mimeType: string
+    },
+    completed: number
+  ): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(FILES_STORE, 'readwrite')
+    transaction.objectStore(FILES_STORE).put({
+      jobId: job.id,
+      id36,
+      data: new Blob([data], { type: mimeType }),
+      sha256,
+      extension,
+      mimeType,
+    } satisfies JournalFile)
+    await transactionDone(transaction)
+
+    await writePendingJob({
+      id: job.id,
+      total: job.screens.length,
+      completed,
+      createdAt: job.createdAt,
+      updatedAt: Date.now(),
+    })
+  }
+
+  async readFiles(jobId: string): Promise<JournalFile[]> {
+    const db = await openDatabase()
+    return requestToPromise<JournalFile[]>(
+      db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE).index(FILES_BY_JOB_INDEX).getAll(jobId)
+    )
+  }
+
+  async discard(jobId: string): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction([JOBS_STORE, FILES_STORE], 'readwrite')
+    transaction.objectStore(JOBS_STORE).delete(jobId)
+    transaction.objectStore(FILES_STORE).delete(IDBKeyRange.bound([jobId], [jobId, []]))
+    await transactionDone(transaction)
+
+    await removePendingJob(jobId)
+  }
+
+  /** Discards an interrupted job at the user's request; a job still running keeps its journal. */
+  async discardUnused(jobId: string): Promise<void> {
+    if (this.inUse.has(jobId)) {
+      throw new Error('That download is still running.')
+    }
+    await this.discard(jobId)
+  }
+}
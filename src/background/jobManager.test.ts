@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { appendJobHistory } from '../shared/jobHistory'
+import { JobMessage } from '../shared/protocol'
+import { JobContext, JobManager } from './jobManager'
+
+vi.mock('../shared/jobHistory', () => ({ appendJobHistory: vi.fn(async () => undefined) }))
+
+interface FakeJob {
+  run: (context: JobContext) => Promise<void>
+  context?: JobContext
+  finish: () => void
+  fail: (error: Error) => void
+}
+
+/** A job runner that stays running until the test finishes or fails it. */
+const fakeJob = (): FakeJob => {
+  const job = {} as FakeJob
+  job.run = (context) =>
+    new Promise<void>((resolve, reject) => {
+      job.context = context
+      job.finish = resolve
+      job.fail = reject
+      context.signal.addEventListener('abort', () => reject(context.signal.reason))
+    })
+  return job
+}
+
+const subscriber = () => {
+  const messages: JobMessage[] = []
+  return { messages, target: { postMessage: (message: JobMessage) => messages.push(message) } }
+}
+
+const states = (manager: JobManager) => manager.snapshot().map(({ state }) => state)
+
+describe('JobManager', () => {
+  let manager: JobManager
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(appendJobHistory).mockClear()
+    manager = new JobManager()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('runs two jobs at once and queues the rest', () => {
+    const jobs = [fakeJob(), fakeJob(), fakeJob()]
+    const third = subscriber()
+    jobs.slice(0, 2).forEach((job) => manager.enqueue('gallery', job.run))
+    manager.enqueue('dashboard', jobs[2].run, { subscriber: third.target })
+
+    expect(states(manager)).toEqual(['running', 'running', 'queued'])
+    expect(jobs[2].context).toBeUndefined()
+    expect(third.messages).toEqual([{ type: 'status', message: 'Queued behind 2 other job(s).' }])
+  })
+
+  it('starts queued jobs in the order they were queued', async () => {
+    const jobs = [fakeJob(), fakeJob(), fakeJob(), fakeJob()]
+    const runIds = jobs.map((job) => manager.enqueue('gallery', job.run))
+
+    jobs[1].finish()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(jobs[2].context).toBeDefined()
+    expect(jobs[3].context).toBeUndefined()
+    expect(manager.has(runIds[1])).toBe(false)
+
+    jobs[0].fail(new Error('boom'))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(jobs[3].context).toBeDefined()
+    expect(manager.snapshot().map(({ runId }) => runId)).toEqual([runIds[2], runIds[3]])
+  })
+
+  it('cancels a queued job without ever running it', async () => {
+    const jobs = [fakeJob(), fakeJob(), fakeJob()]
+    const queued = subscriber()
+    jobs.slice(0, 2).forEach((job) => manager.enqueue('gallery', job.run))
+    const runId = manager.enqueue('gallery', jobs[2].run, { subscriber: queued.target })
+
+    expect(manager.cancel(runId)).toBe(true)
+    expect(manager.has(runId)).toBe(false)
+    expect(queued.messages.at(-1)).toEqual({ type: 'cancelled' })
+    expect(appendJobHistory).toHaveBeenCalledWith(expect.objectContaining({ runId, outcome: 'cancelled' }))
+
+    jobs[0].finish()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(jobs[2].context).toBeUndefined()
+  })
+
+  it('aborts a running job on cancel and lets the next one start', async () => {
+    const jobs = [fakeJob(), fakeJob(), fakeJob()]
+    const [first] = jobs.map((job) => manager.enqueue('gallery', job.run))
+
+    expect(manager.cancel(first, 'Stopped.')).toBe(true)
+    expect(jobs[0].context?.signal.aborted).toBe(true)
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(manager.has(first)).toBe(false)
+    expect(jobs[2].context).toBeDefined()
+    expect(appendJobHistory).toHaveBeenCalledWith(expect.objectContaining({ runId: first, outcome: 'interrupted' }))
+  })
+
+  it('returns false for jobs it does not know', () => {
+    expect(manager.cancel('missing')).toBe(false)
+  })
+
+  it('reports job errors to subscribers and records the failure', async () => {
+    const job = fakeJob()
+    const page = subscriber()
+    const runId = manager.enqueue('gallery', job.run, { subscriber: page.target })
+
+    job.fail(new Error('Gallery is empty.'))
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(page.messages.at(-1)).toEqual({ type: 'error', message: 'Gallery is empty.' })
+    expect(appendJobHistory).toHaveBeenCalledWith(
+      expect.objectContaining({ runId, outcome: 'failed', message: 'Gallery is empty.' })
+    )
+  })
+})
@@ -0,0 +1,359 @@
+import {
+  appendJobHistory,
+  JobFailedScreen,
+  JobOutcome,
+  JobOutputFile,
+  JobSettingsSnapshot,
+  JobSource,
+} from '../shared/jobHistory'
+import { ActiveJobSummary, DashboardMessage, GalleryMessage, JobMessage } from '../shared/protocol'
+import { ProgressTarget } from './downloadService'
+import { PauseController } from './pauseController'
+
+/** What a queued job gets once it is allowed to run. */
+export interface JobContext {
+  signal: AbortSignal
+  pause: PauseController
+  target: ProgressTarget
+}
+
+type JobRunner = (context: JobContext) => Promise<void>
+
+interface TrackedJob {
+  summary: ActiveJobSummary
+  run: JobRunner
+  controller: AbortController
+  pause: PauseController
+  target: ProgressTarget
+  /** Pages following the job's progress stream. */
+  subscribers: Set<ProgressTarget>
+  task?: Promise<void>
+  settings?: JobSettingsSnapshot
+  account?: string
+  outcome?: JobOutcome
+  message?: string
+  processed: number
+  succeeded: number
+  failedScreens: JobFailedScreen[]
+  outputs: JobOutputFile[]
+}
+
+interface EnqueueOptions {
+  /** The requesting page, which receives every message of the job. */
+  subscriber?: ProgressTarget
+  settings?: JobSettingsSnapshot
+  account?: string
+}
+
+// jobs share the Lightshot rate budget; more would mostly queue on the server
+const MAX_RUNNING_JOBS = 2
+// progress arrives per screenshot; dashboards only need a few refreshes per second
+const BROADCAST_INTERVAL_MS = 250
+
+/**
+ * Runs jobs from every tab and extension page through one FIFO queue, at most
+ * MAX_RUNNING_JOBS at a time. Each job can be paused, resumed, or cancelled by
+ * run id, and any page can attach to its progress stream. Finished jobs are
+ * written to the job history.
+ */
+export class JobManager {
+  // Map keeps insertion order, which is the queue order
+  private readonly jobs = new Map<string, TrackedJob>()
+  private readonly dashboards = new Set<chrome.runtime.Port>()
+  private broadcastTimer: ReturnType<typeof setTimeout> | undefined
+
+  enqueue(source: JobSource, run: JobRunner, { subscriber, settings, account }: EnqueueOptions = {}): string {
+    const runId = crypto.randomUUID()
+    const job: TrackedJob = {
+      summary: {
+        runId,
+        source,
+        startedAt: Date.now(),
+        state: 'queued',
+        status: 'Queued.',
+        phase: 'collecting',
+        completed: 0,
+        total: 0,
+        failed: 0,
+      },
+      run,
+      controller: new AbortController(),
+      pause: new PauseController(),
+      target: {
+        postMessage: (message: JobMessage) => {
+          this.update(job, message)
+          this.forward(job, message)
+        },
+      },
+      subscribers: new Set(subscriber ? [subscriber] : []),
+      settings,
+      account,
+      processed: 0,
+      succeeded: 0,
+      failedScreens: [],
+      outputs: [],
+    }
+    this.jobs.set(runId, job)
+    this.pump()
+
+    if (!job.task) {
+      const ahead = [...this.jobs.values()].filter((other) => other !== job).length
+      job.target.postMessage({ type: 'status', message: `Queued behind ${ahead} other job(s).` })
+    }
+    this.scheduleBroadcast()
+    return runId
+  }
+
+  has(runId: string): boolean {
+    return this.jobs.has(runId)
+  }
+
+  cancel(runId: string, reason?: string): boolean {
+    const job = this.jobs.get(runId)
+    if (!job) {
+      return false
+    }
+
+    job.controller.abort(reason)
+    if (!job.task) {
+      job.target.postMessage({ type: 'cancelled' })
+      this.settle(job)
+    }
+    return true
+  }
+
+  pause(runId: string): boolean {
+    const job = this.jobs.get(runId)
+    if (!job || !job.pause.pause()) {
+      return false
+    }
+
+    job.target.postMessage({ type: 'paused', paused: true })
+    return true
+  }
+
+  resume(runId: string): boolean {
+    const job = this.jobs.get(runId)
+    if (!job || !job.pause.resume()) {
+      return false
+    }
+
+    job.target.postMessage({ type: 'paused', paused: false })
+    this.pump()
+    return true
+  }
+
+  /**
+   * Adds a page to a job's progress stream: the given job, or the most
+   * recently queued one. Returns the run id, or null when nothing matches.
+   */
+  attach(port: chrome.runtime.Port, runId?: string): string | null {
+    const job = runId ? this.jobs.get(runId) : [...this.jobs.values()].pop()
+    if (!job) {
+      return null
+    }
+
+    job.subscribers.add(port)
+    port.onDisconnect.addListener(() => {
+      job.subscribers.delete(port)
+    })
+
+    const { summary } = job
+    this.post(port, { type: 'attached', runId: summary.runId })
+    if (summary.phase !== 'collecting') {
+      this.post(port, {
+        type: 'start',
+        total: summary.total,
+        concurrency: job.settings?.concurrency ?? 1,
+        resumed: summary.completed,
+      })
+    }
+    this.post(port, { type: 'status', message: summary.status })
+    if (job.pause.paused) {
+      this.post(port, { type: 'paused', paused: true })
+    }
+    return summary.runId
+  }
+
+  attachDashboard(port: chrome.runtime.Port) {
+    this.dashboards.add(port)
+    port.onDisconnect.addListener(() => {
+      this.dashboards.delete(port)
+    })
+    this.notifyDashboard(port, { type: 'jobs', jobs: this.snapshot() })
+  }
+
+  snapshot(): ActiveJobSummary[] {
+    return [...this.jobs.values()].map(({ summary }) => ({ ...summary }))
+  }
+
+  /** Starts queued jobs, oldest first, while there is room. Paused queued jobs are skipped. */
+  private pump() {
+    let running = [...this.jobs.values()].filter((job) => job.task).length
+    for (const job of this.jobs.values()) {
+      if (running >= MAX_RUNNING_JOBS) {
+        return
+      }
+      if (job.task || job.pause.paused) {
+        continue
+      }
+
+      this.start(job)
+      running += 1
+    }
+  }
+
+  private start(job: TrackedJob) {
+    const { controller, pause, target } = job
+    job.summary.state = 'running'
+    job.summary.status = 'Starting...'
+
+    job.task = job
+      .run({ signal: controller.signal, pause, target })
+      .catch((error) => {
+        if (controller.signal.aborted) {
+          return
+        }
+
+        const message = error instanceof Error ? error.message : String(error)
+        target.postMessage({ type: 'error', message })
+      })
+      .finally(() => this.settle(job))
+  }
+
+  /** Removes a job once its run settled, records it, and lets the next one start. */
+  private settle(job: TrackedJob) {
+    const { runId } = job.summary
+    if (!this.jobs.delete(runId)) {
+      return
+    }
+    this.pump()
+    this.scheduleBroadcast()
+
+    appendJobHistory({
+      runId,
+      source: job.summary.source,
+      account: job.account,
+      startedAt: job.summary.startedAt,
+      finishedAt: Date.now(),
+      outcome: job.outcome ?? (job.controller.signal.aborted ? 'interrupted' : 'failed'),
+      settings: job.settings,
+      total: job.summary.total,
+      processed: job.processed,
+      succeeded: job.succeeded,
+      failed: job.summary.failed,
+      failedScreens: job.failedScreens,
+      outputs: job.outputs,
+      message: job.message,
+    }).catch((error) => {
+      console.error('Failed to record job history', error)
+    })
+  }
+
+  private forward(job: TrackedJob, message: JobMessage) {
+    job.subscribers.forEach((subscriber) => {
+      try {
+        subscriber.postMessage(message)
+      } catch {
+        // the page went away; the job keeps running for everyone else
+        job.subscribers.delete(subscriber)
+      }
+    })
+  }
+
+  private update(job: TrackedJob, message: JobMessage) {
+    const { summary } = job
+
+    switch (message.type) {
+      case 'start':
+        summary.phase = 'downloading'
+        summary.total = message.total
+        summary.completed = message.resumed ?? 0
+        break
+      case 'progress':
+        summary.phase = message.phase ?? 'downloading'
+        if (summary.phase === 'downloading') {
+          summary.completed = message.completed
+          summary.total = message.total
+          summary.failed = message.failed ?? summary.failed
+          job.processed = message.completed
+          job.succeeded = message.succeeded ?? job.succeeded
+        }
+        break
+      case 'status':
+        summary.status = message.message
+        break
+      case 'paused':
+        summary.state = message.paused ? 'paused' : job.task ? 'running' : 'queued'
+        break
+      case 'log':
+        this.broadcast({ type: 'log', runId: summary.runId, level: message.level, message: message.message })
+        return
+      case 'volume':
+        job.outputs.push({
+          filename: message.filename,
+          downloadId: message.downloadId,
+          files: message.files,
+          bytes: message.bytes,
+        })
+        break
+      case 'done':
+        job.outcome = 'completed'
+        job.processed = message.processed ?? job.processed
+        job.succeeded = message.succeeded ?? message.total
+        job.failedScreens = (message.failures ?? []).map(({ screen, kind, status, reason }) => ({
+          id36: screen.id36,
+          kind,
+          status,
+          reason,
+        }))
+        summary.failed = message.failed
+        summary.status = 'Done.'
+        break
+      case 'error':
+        job.outcome = 'failed'
+        job.message = message.message
+        summary.status = `Error: ${message.message}`
+        break
+      case 'cancelled':
+        job.outcome = 'cancelled'
+        summary.status = 'Cancelled.'
+        break
+      default:
+        return
+    }
+
+    this.scheduleBroadcast()
+  }
+
+  private scheduleBroadcast() {
+    if (this.broadcastTimer !== undefined) {
+      return
+    }
+
+    this.broadcastTimer = setTimeout(() => {
+      this.broadcastTimer = undefined
+      this.broadcast({ type: 'jobs', jobs: this.snapshot() })
+    }, BROADCAST_INTERVAL_MS)
+  }
+
+  private broadcast(message: DashboardMessage) {
+    this.dashboards.forEach((port) => this.notifyDashboard(port, message))
+  }
+
+  private notifyDashboard(port: chrome.runtime.Port, message: DashboardMessage) {
+    try {
+      port.postMessage(message)
+    } catch {
+      this.dashboards.delete(port)
+    }
+  }
+
+  private post(port: chrome.runtime.Port, message: GalleryMessage) {
+    try {
+      port.postMessage(message)
+    } catch {
+      // disconnected while attaching; onDisconnect cleans up
+    }
+  }
+}
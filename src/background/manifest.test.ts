@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { ScreenMeta } from '../domain/lightshotClient'
+import { buildManifestCsv, buildManifestJson, createManifestEntry } from './manifest'
+
+const screen = (id36: string, overrides: Partial<ScreenMeta> = {}): ScreenMeta => ({
+  id36,
+  url: `https://img.lightshot.app/${id36}.png`,
+  date: '2024-01-02 03:04:05',
+  ...overrides,
+})
+
+const ENTRIES = [
+  createManifestEntry(screen('a1', { share_url: 'https://prnt.sc/a1', created_at: '2024-01-02T03:04:05Z' }), {
+    status: 'ok',
+    file: 'screenshot_a1.png',
+    archive: 'gallery.zip',
+    size: 1234,
+    sha256: 'f00d',
+    format: 'png',
+  }),
+  createManifestEntry(screen('b2'), { status: 'duplicate', file: 'screenshot_a1.png', duplicate_of: 'a1' }),
+  createManifestEntry(screen('c3', { description: 'Said "hi", then\nleft' }), { status: 'failed', reason: 'HTTP 404' }),
+]
+
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\r' && text[index + 1] === '\n') {
+      rows.push([...row, field])
+      row = []
+      field = ''
+      index += 1
+    } else {
+      field += char
+    }
+  }
+  return rows
+}
+
+describe('createManifestEntry', () => {
+  it('fills every column, with null for what is unknown', () => {
+    expect(ENTRIES[2]).toEqual({
+      id36: 'c3',
+      url: 'https://img.lightshot.app/c3.png',
+      share_url: null,
+      description: 'Said "hi", then\nleft',
+      created_at: '2024-01-02 03:04:05',
+      file: null,
+      archive: null,
+      size: null,
+      sha256: null,
+      stored_size: null,
+      stored_sha256: null,
+      format: null,
+      status: 'failed',
+      duplicate_of: null,
+      reason: 'HTTP 404',
+    })
+  })
+
+  it('prefers the creation time over the listing date', () => {
+    expect(ENTRIES[0].created_at).toBe('2024-01-02T03:04:05Z')
+  })
+})
+
+describe('buildManifestJson', () => {
+  it('summarizes the entries and lists them under screens', async () => {
+    const document = JSON.parse(await buildManifestJson(ENTRIES).text())
+
+    expect(document).toMatchObject({ total: 3, succeeded: 1, duplicates: 1, failed: 1 })
+    expect(Number.isNaN(Date.parse(document.generatedAt))).toBe(false)
+    expect(document.screens).toEqual(ENTRIES)
+  })
+})
+
+describe('buildManifestCsv', () => {
+  it('writes a header and one CRLF-terminated row per entry', async () => {
+    const text = await buildManifestCsv(ENTRIES).text()
+    expect(text.endsWith('\r\n')).toBe(true)
+
+    const [header, ...rows] = parseCsv(text)
+    expect(header).toEqual(Object.keys(ENTRIES[0]))
+    expect(rows).toHaveLength(ENTRIES.length)
+    expect(Object.fromEntries(header.map((column, index) => [column, rows[0][index]]))).toMatchObject({
+      id36: 'a1',
+      share_url: 'https://prnt.sc/a1',
+      size: '1234',
+      description: '',
+      status: 'ok',
+    })
+  })
+
+  it('quotes fields with commas, quotes, and line breaks', async () => {
+    const text = await buildManifestCsv(ENTRIES).text()
+    expect(text).toContain(',"Said ""hi"", then\nleft",')
+
+    const [header, , , failed] = parseCsv(text)
+    expect(failed[header.indexOf('description')]).toBe('Said "hi", then\nleft')
+  })
+
+  it('leaves plain fields unquoted', async () => {
+    const text = await buildManifestCsv([ENTRIES[1]]).text()
+    expect(text.split('\r\n')[1]).toBe(
+      'b2,https://img.lightshot.app/b2.png,,,2024-01-02 03:04:05,screenshot_a1.png,,,,,,,duplicate,a1,'
+    )
+  })
+})
@@ -0,0 +1,101 @@
+import { ScreenMeta } from '../domain/lightshotClient'
+
+export type ManifestStatus = 'ok' | 'duplicate' | 'failed'
+
+export interface ManifestEntry {
+  id36: string
+  url: string
+  share_url: string | null
+  description: string | null
+  created_at: string | null
+  file: string | null
+  archive: string | null
+  /** Size and SHA-256 of the image as downloaded from Lightshot. */
+  size: number | null
+  sha256: string | null
+  /**
+   * Size and SHA-256 of the file written to the export when it differs from
+   * the download (metadata embedded into the image); null when identical.
+   */
+  stored_size: number | null
+  stored_sha256: string | null
+  format: string | null
+  status: ManifestStatus
+  /** id36 of the screenshot whose file holds the same content, for `duplicate` entries. */
+  duplicate_of: string | null
+  reason: string | null
+}
+
+export const MANIFEST_JSON_FILENAME = 'manifest.json'
+export const MANIFEST_CSV_FILENAME = 'manifest.csv'
+
+const CSV_COLUMNS: Array<keyof ManifestEntry> = [
+  'id36',
+  'url',
+  'share_url',
+  'description',
+  'created_at',
+  'file',
+  'archive',
+  'size',
+  'sha256',
+  'stored_size',
+  'stored_sha256',
+  'format',
+  'status',
+  'duplicate_of',
+  'reason',
+]
+
+export const createManifestEntry = (
+  screen: ScreenMeta,
+  details: Pick<ManifestEntry, 'status'> &
+    Partial<Pick<ManifestEntry, 'file' | 'archive' | 'size' | 'sha256' | 'stored_size' | 'stored_sha256' | 'format' | 'duplicate_of' | 'reason'>>
+): ManifestEntry => ({
+  id36: screen.id36,
+  url: screen.url,
+  share_url: screen.share_url ?? null,
+  description: screen.description ?? null,
+  created_at: screen.created_at ?? screen.date ?? null,
+  file: details.file ?? null,
+  archive: details.archive ?? null,
+  size: details.size ?? null,
+  sha256: details.sha256 ?? null,
+  stored_size: details.stored_size ?? null,
+  stored_sha256: details.stored_sha256 ?? null,
+  format: details.format ?? null,
+  status: details.status,
+  duplicate_of: details.duplicate_of ?? null,
+  reason: details.reason ?? null,
+})
+
+export const buildManifestJson = (entries: ManifestEntry[]): Blob => {
+  const ok = entries.filter((entry) => entry.status === 'ok').length
+  const duplicates = entries.filter((entry) => entry.status === 'duplicate').length
+  const document = {
+    generatedAt: new Date().toISOString(),
+    total: entries.length,
+    succeeded: ok,
+    duplicates,
+    failed: entries.length - ok - duplicates,
+    screens: entries,
+  }
+  return new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' })
+}
+
+export const buildManifestCsv = (entries: ManifestEntry[]): Blob => {
+  const rows = [
+    CSV_COLUMNS.join(','),
+    ...entries.map((entry) => CSV_COLUMNS.map((column) => escapeCsv(entry[column])).join(',')),
+  ]
+  return new Blob([rows.join('\r\n') + '\r\n'], { type: 'text/csv' })
+}
+
+const escapeCsv = (value: string | number | null): string => {
+  if (value === null) {
+    return ''
+  }
+
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,165 @@
+import { EXPORTS_STORE, openDatabase, transactionDone } from '../shared/database'
+
+const OFFSCREEN_DOCUMENT_PATH = 'offscreen/index.html'
+// download id to object URL; session storage outlives the worker, and the document dies with the browser anyway
+const DOWNLOAD_URLS_KEY = 'lgd:downloadUrls'
+
+type OffscreenResponse = { url?: string; error?: string }
+
+let creatingDocument: Promise<void> | null = null
+let closingDocument: Promise<void> | null = null
+const outstandingUrls = new Set<string>()
+// creations past `ensureOffscreenDocument` whose URL is not in `outstandingUrls` yet
+let pendingCreations = 0
+let urlUpdates: Promise<unknown> = Promise.resolve()
+
+/**
+ * Service workers cannot call `URL.createObjectURL`, so archives are handed to
+ * an offscreen document through IndexedDB and exposed from there.
+ */
+export const createObjectUrl = async (blob: Blob): Promise<string> => {
+  // counted before the document check so a concurrent revoke does not close it under us
+  pendingCreations += 1
+  try {
+    await ensureOffscreenDocument()
+
+    const key = crypto.randomUUID()
+    const db = await openDatabase()
+    const transaction = db.transaction(EXPORTS_STORE, 'readwrite')
+    transaction.objectStore(EXPORTS_STORE).put(blob, key)
+    await transactionDone(transaction)
+
+    const response = (await chrome.runtime.sendMessage({
+      target: 'offscreen',
+      type: 'create-object-url',
+      key,
+    })) as OffscreenResponse | undefined
+
+    if (!response?.url) {
+      throw new Error(response?.error ?? 'Failed to expose the archive for download.')
+    }
+
+    outstandingUrls.add(response.url)
+    return response.url
+  } finally {
+    pendingCreations -= 1
+  }
+}
+
+/** Revokes `url` once the download finishes, even if the worker restarts meanwhile. */
+export const releaseObjectUrlAfterDownload = async (downloadId: number, url: string): Promise<void> => {
+  await updateDownloadUrls((urls) => {
+    urls[downloadId] = url
+  })
+}
+
+export const revokeObjectUrl = async (url: string) => {
+  outstandingUrls.delete(url)
+  await chrome.runtime.sendMessage({ target: 'offscreen', type: 'revoke-object-url', url })
+  await closeDocumentIfUnused()
+}
+
+const closeDocumentIfUnused = async () => {
+  if (outstandingUrls.size || pendingCreations || closingDocument) {
+    return
+  }
+
+  closingDocument = chrome.offscreen
+    .closeDocument()
+    .catch(() => {
+      // already closed
+    })
+    .finally(() => {
+      closingDocument = null
+    })
+  await closingDocument
+}
+
+// read-modify-write updates of the stored map must not overwrite each other
+const updateDownloadUrls = <T>(change: (urls: Record<string, string>) => T): Promise<T> => {
+  const next = urlUpdates.then(async () => {
+    const stored = await chrome.storage.session.get(DOWNLOAD_URLS_KEY)
+    const urls = { ...(stored[DOWNLOAD_URLS_KEY] as Record<string, string> | undefined) }
+    const result = change(urls)
+    await chrome.storage.session.set({ [DOWNLOAD_URLS_KEY]: urls })
+    return result
+  })
+  urlUpdates = next.catch(() => {
+    // the next update starts from whatever was stored
+  })
+  return next
+}
+
+const takeDownloadUrl = (downloadId: number): Promise<string | undefined> =>
+  updateDownloadUrls((urls) => {
+    const url = urls[downloadId]
+    delete urls[downloadId]
+    return url
+  })
+
+/**
+ * A restarted worker no longer knows which URLs the offscreen document holds.
+ * Those of downloads still running are counted again and revoked when they
+ * finish; the others are revoked now, which closes the document once nothing
+ * needs it (including URLs created for downloads that never started).
+ */
+const releaseUrlsOfPreviousWorker = async () => {
+  if (!(await chrome.offscreen.hasDocument())) {
+    await updateDownloadUrls((urls) => {
+      Object.keys(urls).forEach((id) => delete urls[id])
+    })
+    return
+  }
+
+  const running = new Set((await chrome.downloads.search({ state: 'in_progress' })).map(({ id }) => id))
+  const stored = Object.entries(await updateDownloadUrls((urls) => ({ ...urls })))
+  // counted before any revoke, which would otherwise close the document under them
+  stored.filter(([id]) => running.has(Number(id))).forEach(([, url]) => outstandingUrls.add(url))
+  for (const [id, url] of stored.filter(([id]) => !running.has(Number(id)))) {
+    if (await takeDownloadUrl(Number(id))) {
+      await revokeObjectUrl(url)
+    }
+  }
+  await closeDocumentIfUnused()
+}
+
+const ensureOffscreenDocument = async () => {
+  // a document that is being closed reports itself as still there
+  if (closingDocument) {
+    await closingDocument
+  }
+  if (await chrome.offscreen.hasDocument()) {
+    return
+  }
+
+  if (!creatingDocument) {
+    creatingDocument = chrome.offscreen
+      .createDocument({
+        url: OFFSCREEN_DOCUMENT_PATH,
+        reasons: [chrome.offscreen.Reason.BLOBS],
+        justification: 'Expose generated archives to chrome.downloads via object URLs.',
+      })
+      .finally(() => {
+        creatingDocument = null
+      })
+  }
+
+  await creatingDocument
+}
+
+chrome.downloads.onChanged.addListener((delta) => {
+  const state = delta.state?.current
+  if (state !== 'complete' && state !== 'interrupted') {
+    return
+  }
+
+  takeDownloadUrl(delta.id)
+    .then((url) => (url ? revokeObjectUrl(url) : undefined))
+    .catch((error) => {
+      console.warn('Failed to release archive URL', error)
+    })
+})
+
+releaseUrlsOfPreviousWorker().catch((error) => {
+  console.warn('Failed to release archive URLs of a previous worker', error)
+})
@@ -0,0 +1,491 @@
+import { formatBytes } from '../shared/format'
+import { sha256Hex } from '../shared/hash'
+import { JobMessage } from '../shared/protocol'
+import { OutputFormat } from '../shared/settings'
+import { BlobCollector } from './blobCollector'
+import { FolderTarget } from './folderOutput'
+import { createObjectUrl, releaseObjectUrlAfterDownload, revokeObjectUrl } from './offscreen'
+import { TarWriter } from './tarWriter'
+import { estimateEntryBytes, PlannedFile, planVolumes } from './volumePlan'
+import { ZipWriter } from './zipWriter'
+
+/** A file handed to a sink; paths use `/` separators. */
+export interface SinkFile {
+  path: string
+  data: Blob
+  sha256?: string
+  date?: Date
+  /**
+   * Job-level file such as the manifest. Archives write it when they are
+   * closed, and split archives repeat it in every volume.
+   */
+  shared?: boolean
+}
+
+export type SinkWriteResult = 'written' | 'skipped'
+
+/**
+ * Where an export ends up. The download service calls `begin` once, then
+ * `addFile` for every screenshot and the shared files, then `finalize`; on
+ * cancel or failure it calls `abort` instead of `finalize`.
+ */
+export interface OutputSink {
+  /**
+   * Incremental sinks are begun before the download and receive each
+   * screenshot as soon as it is fetched. The others are begun with the full
+   * list once everything is fetched and receive the files in gallery order.
+   */
+  readonly incremental: boolean
+  /** Bytes produced so far, for packaging progress. */
+  readonly bytesWritten: number
+  begin(files: PlannedFile[]): Promise<void>
+  /** Archive a planned file goes into, for the manifest; undefined for loose files. */
+  containerOf(path: string): string | undefined
+  /**
+   * Makes room for the shared files in the plan made by `begin`. Returns true
+   * when that moved screenshots to other archives, so `containerOf` answers
+   * (and a manifest built from them) are stale.
+   */
+  reserveShared(files: PlannedFile[]): boolean
+  addFile(file: SinkFile): Promise<SinkWriteResult>
+  finalize(): Promise<void>
+  abort(): Promise<void>
+}
+
+/** Status, log, and volume messages of a sink go to the job's progress stream. */
+export type SinkReporter = (message: JobMessage) => void
+
+export interface OutputSinkOptions {
+  format: OutputFormat
+  /** Base name of the archives, or the subfolder individual files are saved into. */
+  baseName: string
+  maxArchiveBytes?: number
+  maxFilesPerArchive?: number
+  /** A directory picked on the dashboard; takes precedence over `format`. */
+  folder?: FolderTarget
+}
+
+interface ArchiveWriter {
+  addFile(name: string, data: Blob, options?: { date?: Date }): Promise<void>
+  finish(): Promise<void>
+}
+
+interface ArchiveFormat {
+  label: string
+  extension: string
+  mimeType: string
+  createWriter: (sink: (chunk: Uint8Array) => void) => ArchiveWriter
+}
+
+const ZIP_FORMAT: ArchiveFormat = {
+  label: 'ZIP',
+  extension: 'zip',
+  mimeType: 'application/zip',
+  createWriter: (sink) => new ZipWriter(sink),
+}
+
+const STORED_ZIP_FORMAT: ArchiveFormat = {
+  label: 'uncompressed ZIP',
+  extension: 'zip',
+  mimeType: 'application/zip',
+  createWriter: (sink) => new ZipWriter(sink, { compression: 'store' }),
+}
+
+const TAR_FORMAT: ArchiveFormat = {
+  label: 'TAR',
+  extension: 'tar',
+  mimeType: 'application/x-tar',
+  createWriter: (sink) => new TarWriter(sink),
+}
+
+export const createOutputSink = (
+  { format, baseName, maxArchiveBytes = 0, maxFilesPerArchive = 0, folder }: OutputSinkOptions,
+  report: SinkReporter
+): OutputSink => {
+  if (folder) {
+    return new FolderSink(folder, report)
+  }
+
+  switch (format) {
+    case 'files':
+      return new DownloadsSink(baseName, report)
+    case 'tar':
+      return new ArchiveSink(TAR_FORMAT, `${baseName}.${TAR_FORMAT.extension}`, report)
+    default: {
+      const zipFormat = format === 'zip-store' ? STORED_ZIP_FORMAT : ZIP_FORMAT
+      return maxArchiveBytes > 0 || maxFilesPerArchive > 0
+        ? new SplitZipSink(zipFormat, baseName, { maxArchiveBytes, maxFilesPerArchive }, report)
+        : new ArchiveSink(zipFormat, `${baseName}.${zipFormat.extension}`, report)
+    }
+  }
+}
+
+/**
+ * A single archive, streamed into a disk-backed blob and downloaded once
+ * finalized. The time spent writing it is logged so formats can be compared.
+ */
+export class ArchiveSink implements OutputSink {
+  readonly incremental = false
+  private output: BlobCollector | null = null
+  private writer: ArchiveWriter | null = null
+  private readonly shared: SinkFile[] = []
+  private files = 0
+  private startedAt = 0
+  private elapsedMs = 0
+
+  constructor(
+    private readonly format: ArchiveFormat,
+    readonly filename: string,
+    private readonly report: SinkReporter,
+    private readonly volume = { index: 1, count: 1 }
+  ) {}
+
+  get bytesWritten(): number {
+    return this.output?.size ?? 0
+  }
+
+  /** Time spent writing the archive, excluding the hand-off to Chrome. */
+  get packagingMs(): number {
+    return this.elapsedMs
+  }
+
+  async begin(): Promise<void> {
+    this.startedAt = Date.now()
+    this.output = new BlobCollector()
+    this.writer = this.format.createWriter(this.output.push)
+
+    const { index, count } = this.volume
+    this.report({
+      type: 'status',
+      message: count > 1 ? `Packaging ${this.filename} (${index}/${count})...` : `Packaging ${this.format.label} archive...`,
+    })
+  }
+
+  containerOf(): string {
+    return this.filename
+  }
+
+  reserveShared(): boolean {
+    return false
+  }
+
+  async addFile(file: SinkFile): Promise<SinkWriteResult> {
+    if (file.shared) {
+      this.shared.push(file)
+      return 'written'
+    }
+
+    await this.requireWriter().addFile(file.path, file.data, { date: file.date })
+    this.files += 1
+    return 'written'
+  }
+
+  async finalize(): Promise<void> {
+    const writer = this.requireWriter()
+    for (const file of this.shared) {
+      await writer.addFile(file.path, file.data, { date: file.date })
+    }
+    await writer.finish()
+
+    const output = this.output as BlobCollector
+    const { index, count } = this.volume
+    this.elapsedMs = Date.now() - this.startedAt
+    this.report({
+      type: 'log',
+      level: 'info',
+      message: `Packaged ${this.filename} (${this.format.label}) in ${formatSeconds(this.elapsedMs)}: ${formatBytes(output.size)}, ${formatRate(output.size, this.elapsedMs)}.`,
+    })
+    const downloadId = await saveToDownloads(output.toBlob(this.format.mimeType), this.filename, count === 1)
+    this.report({
+      type: 'volume',
+      index,
+      count,
+      filename: this.filename,
+      files: this.files,
+      bytes: output.size,
+      downloadId,
+    })
+  }
+
+  async abort(): Promise<void> {
+    // nothing reached Chrome yet; dropping the collector releases the parts
+    this.writer = null
+    this.output = null
+  }
+
+  private requireWriter(): ArchiveWriter {
+    if (!this.writer) {
+      throw new Error(`${this.filename} is not open.`)
+    }
+    return this.writer
+  }
+}
+
+/**
+ * ZIP volumes that respect a size and file-count limit. Volumes are planned
+ * up front so the manifest can name the archive of every file, and each one
+ * is downloaded as soon as its last file is added.
+ */
+export class SplitZipSink implements OutputSink {
+  readonly incremental = false
+  private readonly volumeByPath = new Map<string, number>()
+  private readonly shared: SinkFile[] = []
+  private planned: PlannedFile[] = []
+  // every volume repeats the shared files
+  private reservedBytes = 0
+  private count = 1
+  private current: ArchiveSink | null = null
+  private currentIndex = -1
+  private finishedBytes = 0
+  private packagingMs = 0
+
+  constructor(
+    private readonly format: ArchiveFormat,
+    private readonly baseName: string,
+    private readonly limits: { maxArchiveBytes: number; maxFilesPerArchive: number },
+    private readonly report: SinkReporter
+  ) {}
+
+  get bytesWritten(): number {
+    return this.finishedBytes + (this.current?.bytesWritten ?? 0)
+  }
+
+  async begin(files: PlannedFile[]): Promise<void> {
+    this.planned = files
+    this.plan()
+  }
+
+  containerOf(path: string): string | undefined {
+    const index = this.volumeByPath.get(path)
+    return index === undefined ? undefined : this.volumeFilename(index)
+  }
+
+  reserveShared(files: PlannedFile[]): boolean {
+    const bytes = files.reduce((sum, file) => sum + estimateEntryBytes(file), 0)
+    if (bytes <= this.reservedBytes) {
+      return false
+    }
+
+    const previous = new Map(this.volumeByPath)
+    const previousCount = this.count
+    this.reservedBytes = bytes
+    this.plan()
+    return this.count !== previousCount || [...this.volumeByPath].some(([path, index]) => previous.get(path) !== index)
+  }
+
+  async addFile(file: SinkFile): Promise<SinkWriteResult> {
+    if (file.shared) {
+      this.shared.push(file)
+      return this.current ? this.current.addFile(file) : 'written'
+    }
+
+    const volume = await this.openVolume(this.volumeByPath.get(file.path) ?? Math.max(this.currentIndex, 0))
+    return volume.addFile(file)
+  }
+
+  async finalize(): Promise<void> {
+    // with nothing added, the single volume still carries the manifest
+    await this.openVolume(Math.max(this.currentIndex, 0))
+    await this.closeVolume()
+
+    if (this.count > 1) {
+      this.report({
+        type: 'log',
+        level: 'info',
+        message: `Packaged ${this.count} volumes (${this.format.label}) in ${formatSeconds(this.packagingMs)}: ${formatBytes(this.finishedBytes)}, ${formatRate(this.finishedBytes, this.packagingMs)}.`,
+      })
+    }
+  }
+
+  async abort(): Promise<void> {
+    await this.current?.abort()
+    this.current = null
+  }
+
+  private async openVolume(index: number): Promise<ArchiveSink> {
+    if (this.current && index === this.currentIndex) {
+      return this.current
+    }
+
+    // reported once the plan is final, which is after the shared files are reserved
+    if (this.currentIndex === -1 && this.count > 1) {
+      this.report({ type: 'status', message: `Splitting ${this.planned.length} screenshot(s) into ${this.count} archives.` })
+    }
+
+    await this.closeVolume()
+    const volume = new ArchiveSink(this.format, this.volumeFilename(index), this.report, { index: index + 1, count: this.count })
+    await volume.begin()
+    for (const file of this.shared) {
+      await volume.addFile(file)
+    }
+    this.current = volume
+    this.currentIndex = index
+    return volume
+  }
+
+  private async closeVolume() {
+    if (!this.current) {
+      return
+    }
+
+    await this.current.finalize()
+    this.finishedBytes += this.current.bytesWritten
+    this.packagingMs += this.current.packagingMs
+    this.current = null
+  }
+
+  private plan() {
+    const volumes = planVolumes(this.planned, { ...this.limits, reservedBytes: this.reservedBytes })
+    this.count = volumes.length
+    this.volumeByPath.clear()
+    volumes.forEach((volume, index) => volume.forEach(({ path }) => this.volumeByPath.set(path, index)))
+  }
+
+  private volumeFilename(index: number): string {
+    return this.count > 1
+      ? `${this.baseName}-part-${String(index + 1).padStart(2, '0')}.${this.format.extension}`
+      : `${this.baseName}.${this.format.extension}`
+  }
+}
+
+/** Saves every file on its own through `chrome.downloads`, inside a subfolder of the downloads directory. */
+export class DownloadsSink implements OutputSink {
+  readonly incremental = true
+  private files = 0
+  private bytes = 0
+
+  constructor(
+    private readonly folder: string,
+    private readonly report: SinkReporter
+  ) {}
+
+  get bytesWritten(): number {
+    return this.bytes
+  }
+
+  async begin(): Promise<void> {
+    this.report({ type: 'log', level: 'info', message: `Saving files into ${this.folder}/ in your downloads folder.` })
+  }
+
+  containerOf(): undefined {
+    return undefined
+  }
+
+  reserveShared(): boolean {
+    return false
+  }
+
+  async addFile({ path, data, shared }: SinkFile): Promise<SinkWriteResult> {
+    await saveToDownloads(data, `${this.folder}/${path}`, false)
+    if (!shared) {
+      this.files += 1
+      this.bytes += data.size
+    }
+    return 'written'
+  }
+
+  async finalize(): Promise<void> {
+    this.report({ type: 'volume', index: 1, count: 1, filename: `${this.folder}/`, files: this.files, bytes: this.bytes })
+  }
+
+  async abort(): Promise<void> {
+    // files already saved stay in the downloads folder
+  }
+}
+
+/** Writes into a directory picked on the dashboard; identical files already there are skipped. */
+export class FolderSink implements OutputSink {
+  readonly incremental = true
+  private files = 0
+  private bytes = 0
+  private skipped = 0
+
+  constructor(
+    private readonly target: FolderTarget,
+    private readonly report: SinkReporter
+  ) {}
+
+  get bytesWritten(): number {
+    return this.bytes
+  }
+
+  async begin(): Promise<void> {
+    // the dashboard already holds the directory
+  }
+
+  containerOf(): undefined {
+    return undefined
+  }
+
+  reserveShared(): boolean {
+    return false
+  }
+
+  async addFile({ path, data, sha256, shared }: SinkFile): Promise<SinkWriteResult> {
+    const result = await this.target.writeFile(path, data, sha256 ?? await sha256Hex(await data.arrayBuffer()))
+    if (!shared) {
+      this.files += 1
+      if (result === 'skipped') {
+        this.skipped += 1
+      } else {
+        this.bytes += data.size
+      }
+    }
+    return result
+  }
+
+  async finalize(): Promise<void> {
+    if (this.skipped) {
+      this.report({
+        type: 'log',
+        level: 'info',
+        message: `${this.skipped} file(s) were already in ${this.target.name} with the same content and were left untouched.`,
+      })
+    }
+    this.report({ type: 'volume', index: 1, count: 1, filename: this.target.name, files: this.files, bytes: this.bytes })
+  }
+
+  async abort(): Promise<void> {
+    // files already written stay in the folder
+  }
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+const formatRate = (bytes: number, ms: number) => `${formatBytes(ms > 0 ? (bytes * 1000) / ms : bytes)}/s`
+
+const saveToDownloads = async (blob: Blob, filename: string, saveAs: boolean): Promise<number | undefined> => {
+  const url = await createObjectUrl(blob)
+
+  try {
+    const downloadId = await triggerDownload(url, filename, saveAs)
+    if (downloadId === undefined) {
+      await revokeObjectUrl(url)
+    } else {
+      await releaseObjectUrlAfterDownload(downloadId, url)
+    }
+    return downloadId
+  } catch (error) {
+    await revokeObjectUrl(url)
+    throw error
+  }
+}
+
+const triggerDownload = (url: string, filename: string, saveAs: boolean): Promise<number | undefined> =>
+  new Promise((resolve, reject) => {
+    chrome.downloads.download(
+      {
+        url,
+        filename,
+        saveAs,
+      },
+      (downloadId) => {
+        const error = chrome.runtime.lastError
+        if (error) {
+          reject(new Error(error.message))
+          return
+        }
+        resolve(downloadId ?? undefined)
+      }
+    )
+  })
@@ -0,0 +1,41 @@
+type PauseListener = (paused: boolean) => void
+
+/**
+ * Pause switch handed to a running job, the counterpart of its AbortController.
+ * Pausing only stops new screenshots from being dispatched; fetches already in
+ * flight finish and are kept.
+ */
+export class PauseController {
+  private isPaused = false
+  private readonly listeners = new Set<PauseListener>()
+
+  get paused(): boolean {
+    return this.isPaused
+  }
+
+  /** Returns false when the state did not change. */
+  pause(): boolean {
+    return this.set(true)
+  }
+
+  resume(): boolean {
+    return this.set(false)
+  }
+
+  /** Returns a function that removes the listener. */
+  onChange(listener: PauseListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private set(paused: boolean): boolean {
+    if (this.isPaused === paused) {
+      return false
+    }
+    this.isPaused = paused
+    this.listeners.forEach((listener) => listener(paused))
+    return true
+  }
+}
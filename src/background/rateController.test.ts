@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AdaptiveRateController, parseRetryAfter } from './rateController'
+
+const controller = (overrides: Partial<ConstructorParameters<typeof AdaptiveRateController>[0]> = {}) =>
+  new AdaptiveRateController({ initialConcurrency: 2, maxConcurrency: 4, initialDelayMs: 400, minDelayMs: 100, ...overrides })
+
+const succeed = (rate: AdaptiveRateController, times: number, latencyMs = 100) => {
+  for (let index = 0; index < times; index += 1) {
+    rate.recordSuccess(latencyMs)
+  }
+}
+
+describe('AdaptiveRateController', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('clamps the starting values to the limits', () => {
+    const rate = controller({ initialConcurrency: 10, initialDelayMs: 0 })
+    expect(rate.concurrency).toBe(4)
+    expect(rate.delayMs).toBe(100)
+  })
+
+  it('adds a stream after as many healthy responses as there are streams', () => {
+    const rate = controller()
+
+    succeed(rate, 1)
+    expect(rate.concurrency).toBe(2)
+    succeed(rate, 1)
+    expect(rate.concurrency).toBe(3)
+    succeed(rate, 3)
+    expect(rate.concurrency).toBe(4)
+  })
+
+  it('shaves the delay once the stream ceiling is reached', () => {
+    const rate = controller({ initialConcurrency: 4 })
+
+    succeed(rate, 4)
+    expect(rate.concurrency).toBe(4)
+    expect(rate.delayMs).toBe(350)
+
+    succeed(rate, 4 * 10)
+    expect(rate.delayMs).toBe(100)
+  })
+
+  it('does not count slow responses as healthy', () => {
+    const rate = controller()
+
+    succeed(rate, 1)
+    rate.recordSuccess(5_000)
+    succeed(rate, 1)
+    expect(rate.concurrency).toBe(2)
+  })
+
+  it('halves the streams and doubles the delay on congestion', () => {
+    const rate = controller({ initialConcurrency: 4 })
+
+    rate.recordCongestion('server_error')
+    expect(rate.concurrency).toBe(2)
+    expect(rate.delayMs).toBe(800)
+  })
+
+  it('backs off at least to the delay floor and at most to the ceiling', () => {
+    const rate = controller({ initialDelayMs: 0, minDelayMs: 0, maxDelayMs: 1_000 })
+
+    rate.recordCongestion('timeout')
+    expect(rate.delayMs).toBe(250)
+
+    for (let index = 0; index < 5; index += 1) {
+      vi.advanceTimersByTime(2_000)
+      rate.recordCongestion('timeout')
+    }
+    expect(rate.delayMs).toBe(1_000)
+    expect(rate.concurrency).toBe(1)
+  })
+
+  it('backs off once per burst of failures', () => {
+    const rate = controller({ initialConcurrency: 4 })
+
+    rate.recordCongestion('network')
+    rate.recordCongestion('network')
+    expect(rate.concurrency).toBe(2)
+
+    vi.advanceTimersByTime(2_000)
+    rate.recordCongestion('network')
+    expect(rate.concurrency).toBe(1)
+  })
+
+  it('pauses new requests for Retry-After', async () => {
+    const rate = controller()
+    rate.recordCongestion('rate_limited', 5_000)
+    expect(rate.snapshot().pausedUntil).toBe(Date.now() + 5_000)
+
+    let ready = false
+    const waiting = rate.waitForSlot(new AbortController().signal).then(() => {
+      ready = true
+    })
+
+    await vi.advanceTimersByTimeAsync(4_999)
+    expect(ready).toBe(false)
+    await vi.advanceTimersByTimeAsync(1)
+    await waiting
+    expect(ready).toBe(true)
+    expect(rate.snapshot().pausedUntil).toBeUndefined()
+  })
+
+  it('pauses for the current delay when rate limited without Retry-After', () => {
+    const rate = controller()
+    rate.recordCongestion('rate_limited')
+    expect(rate.snapshot().pausedUntil).toBe(Date.now() + rate.delayMs)
+  })
+
+  it('reports changes to listeners', () => {
+    const rate = controller()
+    const listener = vi.fn()
+    rate.onChange(listener)
+
+    succeed(rate, 2)
+    rate.recordCongestion('server_error')
+    expect(listener.mock.calls.map(([snapshot]) => snapshot.concurrency)).toEqual([3, 1])
+  })
+
+  it('counts completions over the sliding window', () => {
+    const rate = controller()
+    succeed(rate, 10)
+    expect(rate.snapshot().requestsPerMinute).toBe(20)
+
+    vi.advanceTimersByTime(30_001)
+    expect(rate.snapshot().requestsPerMinute).toBe(0)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it.each([
+    [null, undefined],
+    ['', undefined],
+    ['120', 120_000],
+    [' 1.5 ', 1_500],
+    ['-3', 0],
+    ['Mon, 01 Jan 2024 00:00:30 GMT', 30_000],
+    ['Sun, 31 Dec 2023 23:00:00 GMT', 0],
+    ['soon', undefined],
+  ])('parses %j', (value, expected) => {
+    expect(parseRetryAfter(value)).toBe(expected)
+  })
+})
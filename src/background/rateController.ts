@@ -0,0 +1,164 @@
+import { delay } from '../shared/delay'
+import { RateSnapshot } from '../shared/protocol'
+
+export type CongestionSignal = 'rate_limited' | 'server_error' | 'timeout' | 'network'
+
+interface RateControllerOptions {
+  initialConcurrency: number
+  maxConcurrency: number
+  initialDelayMs: number
+  minDelayMs?: number
+  maxDelayMs?: number
+}
+
+type RateListener = (snapshot: RateSnapshot) => void
+
+const SLOW_RESPONSE_MS = 4000
+const LATENCY_SMOOTHING = 0.2
+const RATE_WINDOW_MS = 30_000
+const DELAY_STEP_MS = 50
+const BACKOFF_DELAY_FLOOR_MS = 250
+const DEFAULT_MAX_DELAY_MS = 5000
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000
+// in-flight requests fail together; only back off once per burst
+const DECREASE_COOLDOWN_MS = 2000
+
+/**
+ * AIMD-style rate controller. Every `concurrency` healthy responses add one
+ * stream (then shave the delay once the ceiling is reached); any congestion
+ * signal halves the streams and doubles the delay. `Retry-After` pauses new
+ * requests until the server says it is ready again.
+ */
+export class AdaptiveRateController {
+  private currentConcurrency: number
+  private currentDelayMs: number
+  private readonly minDelayMs: number
+  private readonly maxDelayMs: number
+  private readonly maxConcurrency: number
+  private healthyStreak = 0
+  private smoothedLatencyMs = 0
+  private pausedUntil = 0
+  private lastDecreaseAt = 0
+  private readonly completions: number[] = []
+  private readonly listeners = new Set<RateListener>()
+
+  constructor({ initialConcurrency, maxConcurrency, initialDelayMs, minDelayMs = 0, maxDelayMs = DEFAULT_MAX_DELAY_MS }: RateControllerOptions) {
+    this.maxConcurrency = Math.max(1, maxConcurrency)
+    this.currentConcurrency = Math.min(Math.max(1, initialConcurrency), this.maxConcurrency)
+    this.minDelayMs = minDelayMs
+    this.maxDelayMs = Math.max(maxDelayMs, minDelayMs)
+    this.currentDelayMs = Math.min(Math.max(initialDelayMs, minDelayMs), this.maxDelayMs)
+  }
+
+  get concurrency(): number {
+    return this.currentConcurrency
+  }
+
+  get delayMs(): number {
+    return this.currentDelayMs
+  }
+
+  onChange(listener: RateListener) {
+    this.listeners.add(listener)
+  }
+
+  snapshot(): RateSnapshot {
+    const now = Date.now()
+    this.pruneCompletions(now)
+    return {
+      concurrency: this.currentConcurrency,
+      delayMs: this.currentDelayMs,
+      requestsPerMinute: Math.round((this.completions.length * 60_000) / RATE_WINDOW_MS),
+      latencyMs: Math.round(this.smoothedLatencyMs),
+      pausedUntil: this.pausedUntil > now ? this.pausedUntil : undefined,
+    }
+  }
+
+  /** Resolves once a `Retry-After` pause (if any) has elapsed. */
+  async waitForSlot(signal: AbortSignal): Promise<void> {
+    for (;;) {
+      const remaining = this.pausedUntil - Date.now()
+      if (remaining <= 0) {
+        return
+      }
+      await delay(remaining, signal)
+    }
+  }
+
+  recordSuccess(latencyMs: number) {
+    this.completions.push(Date.now())
+    this.smoothedLatencyMs = this.smoothedLatencyMs === 0
+      ? latencyMs
+      : this.smoothedLatencyMs + (latencyMs - this.smoothedLatencyMs) * LATENCY_SMOOTHING
+
+    if (latencyMs > SLOW_RESPONSE_MS) {
+      this.healthyStreak = 0
+      return
+    }
+
+    this.healthyStreak += 1
+    if (this.healthyStreak < this.currentConcurrency) {
+      return
+    }
+
+    this.healthyStreak = 0
+    if (this.currentConcurrency < this.maxConcurrency) {
+      this.currentConcurrency += 1
+      this.emit()
+    } else if (this.currentDelayMs > this.minDelayMs) {
+      this.currentDelayMs = Math.max(this.minDelayMs, this.currentDelayMs - DELAY_STEP_MS)
+      this.emit()
+    }
+  }
+
+  recordCongestion(signal: CongestionSignal, retryAfterMs?: number) {
+    const now = Date.now()
+    this.healthyStreak = 0
+
+    if (now - this.lastDecreaseAt >= DECREASE_COOLDOWN_MS) {
+      this.lastDecreaseAt = now
+      this.currentConcurrency = Math.max(1, Math.floor(this.currentConcurrency / 2))
+      this.currentDelayMs = Math.min(this.maxDelayMs, Math.max(this.currentDelayMs * 2, BACKOFF_DELAY_FLOOR_MS))
+    }
+
+    if (retryAfterMs !== undefined && retryAfterMs > 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, now + Math.min(retryAfterMs, MAX_RETRY_AFTER_MS))
+    } else if (signal === 'rate_limited') {
+      this.pausedUntil = Math.max(this.pausedUntil, now + this.currentDelayMs)
+    }
+
+    this.emit()
+  }
+
+  private pruneCompletions(now: number) {
+    while (this.completions.length && now - this.completions[0] > RATE_WINDOW_MS) {
+      this.completions.shift()
+    }
+  }
+
+  private emit() {
+    const snapshot = this.snapshot()
+    this.listeners.forEach((listener) => listener(snapshot))
+  }
+}
+
+/**
+ * Parses a `Retry-After` header (delta seconds or HTTP date) into milliseconds.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value.trim())
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) {
+    return undefined
+  }
+
+  return Math.max(0, date - Date.now())
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { DownloadError, NonRetryableError } from './downloadError'
+import { classifyRetry, createRetryPolicy } from './retryPolicy'
+
+describe('classifyRetry', () => {
+  it.each([
+    ['a missing capture', new DownloadError('gone', 'http', 404), 'permanent'],
+    ['a removed capture', new DownloadError('gone', 'http', 410), 'permanent'],
+    ['account trouble', new DownloadError('login', 'account_trouble', 403), 'permanent'],
+    ['a non-retryable error', new NonRetryableError('bad image', 'invalid_content'), 'permanent'],
+    ['HTTP 429', new DownloadError('slow down', 'http', 429), 'rate_limited'],
+    ['a Retry-After header', new DownloadError('busy', 'http', 503, 2000), 'rate_limited'],
+    ['a server error', new DownloadError('oops', 'http', 500), 'transient'],
+    ['a network error', new TypeError('Failed to fetch'), 'transient'],
+  ] as const)('classifies %s', (_, error, category) => {
+    expect(classifyRetry(error)).toBe(category)
+  })
+})
+
+describe('createRetryPolicy', () => {
+  const policy = (random = () => 1) =>
+    createRetryPolicy({ maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 5000, maxRetryAfterMs: 60_000, random })
+
+  it('fails permanent errors at once', () => {
+    expect(policy().decide(new DownloadError('gone', 'http', 404), 1)).toEqual({ retry: false, category: 'permanent' })
+  })
+
+  it('stops after the last attempt', () => {
+    expect(policy().decide(new Error('flaky'), 4)).toEqual({ retry: false, category: 'transient' })
+  })
+
+  it('backs off exponentially up to the cap', () => {
+    const delays = [1, 2, 3].map((attempt) => policy().decide(new Error('flaky'), attempt))
+    expect(delays.map((decision) => (decision.retry ? decision.delayMs : undefined))).toEqual([1000, 2000, 4000])
+
+    const capped = createRetryPolicy({ maxAttempts: 10, baseDelayMs: 1000, maxDelayMs: 5000, random: () => 1 })
+    expect(capped.decide(new Error('flaky'), 8)).toMatchObject({ delayMs: 5000 })
+  })
+
+  it('applies full jitter', () => {
+    expect(policy(() => 0).decide(new Error('flaky'), 3)).toMatchObject({ retry: true, delayMs: 0 })
+    expect(policy(() => 0.5).decide(new Error('flaky'), 3)).toMatchObject({ retry: true, delayMs: 2000 })
+  })
+
+  it('waits for Retry-After, up to its cap', () => {
+    expect(policy().decide(new DownloadError('busy', 'http', 429, 12_000), 1)).toEqual({
+      retry: true,
+      category: 'rate_limited',
+      delayMs: 12_000,
+    })
+    expect(policy().decide(new DownloadError('busy', 'http', 429, 600_000), 1)).toMatchObject({ delayMs: 60_000 })
+  })
+
+  it('backs off on 429 without Retry-After', () => {
+    expect(policy().decide(new DownloadError('busy', 'http', 429), 2)).toMatchObject({
+      category: 'rate_limited',
+      delayMs: 2000,
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { DownloadError } from './downloadError'
+
+export type RetryCategory = 'permanent' | 'rate_limited' | 'transient'
+
+export type RetryDecision =
+  | { retry: false; category: RetryCategory }
+  | { retry: true; category: RetryCategory; delayMs: number }
+
+/**
+ * Decides whether a failed attempt is retried and how long to wait first.
+ * `attempt` is 1-based and refers to the attempt that just failed.
+ */
+export interface RetryPolicy {
+  readonly maxAttempts: number
+  decide(error: unknown, attempt: number): RetryDecision
+}
+
+export interface RetryPolicyOptions {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs?: number
+  /** Upper bound for a server-provided `Retry-After`. */
+  maxRetryAfterMs?: number
+  random?: () => number
+}
+
+// 404/410 mean the capture is gone; retrying only burns the rate budget
+const PERMANENT_STATUSES = new Set([404, 410])
+const DEFAULT_MAX_DELAY_MS = 30_000
+const DEFAULT_MAX_RETRY_AFTER_MS = 5 * 60 * 1000
+
+export const classifyRetry = (error: unknown): RetryCategory => {
+  if ((error as { retryable?: boolean } | null)?.retryable === false) {
+    return 'permanent'
+  }
+
+  if (error instanceof DownloadError) {
+    if (error.kind === 'account_trouble' || (error.status !== undefined && PERMANENT_STATUSES.has(error.status))) {
+      return 'permanent'
+    }
+    if (error.status === 429 || error.retryAfterMs !== undefined) {
+      return 'rate_limited'
+    }
+  }
+
+  return 'transient'
+}
+
+/**
+ * Default policy: permanent errors fail at once, rate-limited ones wait for
+ * `Retry-After` when the server sends it, and everything else backs off
+ * exponentially with full jitter, capped at `maxDelayMs`.
+ */
+export const createRetryPolicy = ({
+  maxAttempts,
+  baseDelayMs,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  maxRetryAfterMs = DEFAULT_MAX_RETRY_AFTER_MS,
+  random = Math.random,
+}: RetryPolicyOptions): RetryPolicy => {
+  const backoff = (attempt: number) => {
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1))
+    return Math.round(random() * ceiling)
+  }
+
+  return {
+    maxAttempts,
+    decide(error, attempt) {
+      const category = classifyRetry(error)
+      if (category === 'permanent' || attempt >= maxAttempts) {
+        return { retry: false, category }
+      }
+
+      const retryAfterMs = error instanceof DownloadError ? error.retryAfterMs : undefined
+      const delayMs = category === 'rate_limited' && retryAfterMs !== undefined
+        ? Math.min(retryAfterMs, maxRetryAfterMs)
+        : backoff(attempt)
+
+      return { retry: true, category, delayMs }
+    },
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { TarWriter } from './tarWriter'
+
+const textDecoder = new TextDecoder()
+
+interface TarEntry {
+  name: string
+  prefix: string
+  type: string
+  size: number
+  mtime: number
+  data: Uint8Array
+}
+
+const writeTar = async (files: [string, string][], date = new Date('2024-01-02T03:04:05Z')) => {
+  const chunks: Uint8Array[] = []
+  const writer = new TarWriter((chunk) => {
+    chunks.push(chunk.slice())
+  })
+  for (const [name, text] of files) {
+    await writer.addFile(name, new Blob([text]), { date })
+  }
+  await writer.finish()
+
+  const archive = new Uint8Array(await new Blob(chunks as BlobPart[]).arrayBuffer())
+  expect(archive.length).toBe(writer.bytesWritten)
+  return archive
+}
+
+const field = (block: Uint8Array, offset: number, length: number) => {
+  const bytes = block.subarray(offset, offset + length)
+  const end = bytes.indexOf(0)
+  return textDecoder.decode(end === -1 ? bytes : bytes.subarray(0, end))
+}
+
+const readTar = (archive: Uint8Array): TarEntry[] => {
+  const entries: TarEntry[] = []
+  for (let offset = 0; ; ) {
+    const header = archive.subarray(offset, offset + 512)
+    if (header.every((byte) => byte === 0)) {
+      return entries
+    }
+
+    const stored = parseInt(field(header, 148, 8), 8)
+    const computed = header.reduce((sum, byte, index) => sum + (index >= 148 && index < 156 ? 32 : byte), 0)
+    expect(stored).toBe(computed)
+    expect(field(header, 257, 6)).toBe('ustar')
+
+    const size = parseInt(field(header, 124, 12), 8)
+    entries.push({
+      name: field(header, 0, 100),
+      prefix: field(header, 345, 155),
+      type: field(header, 156, 1),
+      size,
+      mtime: parseInt(field(header, 136, 12), 8),
+      data: archive.subarray(offset + 512, offset + 512 + size),
+    })
+    offset += 512 + Math.ceil(size / 512) * 512
+  }
+}
+
+describe('TarWriter', () => {
+  it('writes ustar entries padded to whole blocks', async () => {
+    const archive = await writeTar([
+      ['a.txt', 'hello'],
+      ['b.txt', ''],
+    ])
+
+    // two headers, one data block, two end blocks
+    expect(archive.length).toBe(512 * 5)
+    expect(archive.subarray(-1024).every((byte) => byte === 0)).toBe(true)
+
+    const [first, second] = readTar(archive)
+    expect(first).toMatchObject({ name: 'a.txt', prefix: '', type: '0', size: 5 })
+    expect(first.mtime).toBe(Date.UTC(2024, 0, 2, 3, 4, 5) / 1000)
+    expect(textDecoder.decode(first.data)).toBe('hello')
+    expect(second).toMatchObject({ name: 'b.txt', size: 0 })
+  })
+
+  it('splits long paths over the prefix and name fields', async () => {
+    const folder = `${'d'.repeat(60)}/${'e'.repeat(60)}`
+    const name = `${folder}/screenshot.png`
+    const [entry] = readTar(await writeTar([[name, 'x']]))
+
+    expect(entry).toMatchObject({ prefix: folder, name: 'screenshot.png', type: '0' })
+  })
+
+  it.each([
+    ['non-ASCII names', 'screens/снимок экрана.png'],
+    ['names that do not fit', `${'n'.repeat(120)}.png`],
+  ])('carries %s in a PAX header', async (_, name) => {
+    const [pax, file] = readTar(await writeTar([[name, 'data']]))
+
+    expect(pax.type).toBe('x')
+    const record = textDecoder.decode(pax.data)
+    expect(record).toBe(`${new TextEncoder().encode(record).length} path=${name}\n`)
+    expect(file).toMatchObject({ type: '0', size: 4 })
+    expect(textDecoder.decode(file.data)).toBe('data')
+  })
+
+  it('rejects files after finishing', async () => {
+    const writer = new TarWriter(() => undefined)
+    await writer.finish()
+    await expect(writer.addFile('late.txt', new Blob(['x']))).rejects.toThrow('finished TAR archive')
+  })
+})
@@ -0,0 +1,151 @@
+type ChunkSink = (chunk: Uint8Array) => void | Promise<void>
+
+export interface TarEntryOptions {
+  date?: Date
+}
+
+const BLOCK_SIZE = 512
+const NAME_LENGTH = 100
+const PREFIX_LENGTH = 155
+// 11 octal digits
+const MAX_OCTAL_SIZE = 0o77777777777
+const FILE_MODE = 0o644
+const TYPE_FILE = '0'
+const TYPE_PAX_HEADER = 'x'
+
+const textEncoder = new TextEncoder()
+
+/**
+ * Minimal streaming ustar writer. File data is copied through as it is read,
+ * so like ZipWriter memory stays bounded by the chunk size. Names that do not
+ * fit the ustar fields are carried in a PAX extended header.
+ */
+export class TarWriter {
+  private offset = 0
+  private finished = false
+
+  constructor(private readonly sink: ChunkSink) {}
+
+  get bytesWritten(): number {
+    return this.offset
+  }
+
+  async addFile(name: string, data: Blob, { date = new Date() }: TarEntryOptions = {}): Promise<void> {
+    if (this.finished) {
+      throw new Error('Cannot add files to a finished TAR archive.')
+    }
+
+    if (data.size > MAX_OCTAL_SIZE) {
+      throw new Error(`${name} is too large to be stored in a TAR archive.`)
+    }
+
+    const mtime = Math.floor(date.getTime() / 1000)
+    let header = splitName(name)
+    if (!header) {
+      const record = paxRecord('path', name)
+      await this.write(createHeader({ name: 'PaxHeader', size: record.length, mtime, type: TYPE_PAX_HEADER }))
+      await this.write(record)
+      await this.pad(record.length)
+      header = { name: textEncoder.encode(name).slice(0, NAME_LENGTH), prefix: new Uint8Array() }
+    }
+
+    await this.write(createHeader({ ...header, size: data.size, mtime, type: TYPE_FILE }))
+
+    const reader = data.stream().getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+      await this.write(value)
+    }
+    await this.pad(data.size)
+  }
+
+  async finish(): Promise<void> {
+    if (this.finished) {
+      return
+    }
+    this.finished = true
+
+    // two empty blocks mark the end of the archive
+    await this.write(new Uint8Array(BLOCK_SIZE * 2))
+  }
+
+  private async pad(size: number) {
+    const remainder = size % BLOCK_SIZE
+    if (remainder) {
+      await this.write(new Uint8Array(BLOCK_SIZE - remainder))
+    }
+  }
+
+  private async write(chunk: Uint8Array) {
+    this.offset += chunk.length
+    await this.sink(chunk)
+  }
+}
+
+/** Splits a path over the ustar name and prefix fields, or returns null when it does not fit. */
+const splitName = (name: string): { name: Uint8Array; prefix: Uint8Array } | null => {
+  const encoded = textEncoder.encode(name)
+  // non-ASCII names go through PAX so every reader decodes them as UTF-8
+  if (encoded.length !== name.length) {
+    return null
+  }
+  if (encoded.length <= NAME_LENGTH) {
+    return { name: encoded, prefix: new Uint8Array() }
+  }
+
+  const slash = name.lastIndexOf('/', PREFIX_LENGTH)
+  if (slash <= 0 || name.length - slash - 1 > NAME_LENGTH) {
+    return null
+  }
+  return { name: encoded.slice(slash + 1), prefix: encoded.slice(0, slash) }
+}
+
+/** A PAX record is "<length> <key>=<value>\n", where the length counts itself. */
+const paxRecord = (key: string, value: string): Uint8Array => {
+  const body = ` ${key}=${value}\n`
+  const bodyLength = textEncoder.encode(body).length
+  let length = bodyLength + String(bodyLength).length
+  if (String(length).length !== String(bodyLength).length) {
+    length = bodyLength + String(length).length
+  }
+  return textEncoder.encode(`${length}${body}`)
+}
+
+const createHeader = ({
+  name,
+  prefix = new Uint8Array(),
+  size,
+  mtime,
+  type,
+}: {
+  name: Uint8Array | string
+  prefix?: Uint8Array
+  size: number
+  mtime: number
+  type: string
+}): Uint8Array => {
+  const header = new Uint8Array(BLOCK_SIZE)
+  const put = (offset: number, value: Uint8Array | string) => {
+    header.set(typeof value === 'string' ? textEncoder.encode(value) : value, offset)
+  }
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0')
+
+  put(0, name)
+  put(100, octal(FILE_MODE, 8))
+  put(108, octal(0, 8))
+  put(116, octal(0, 8))
+  put(124, octal(size, 12))
+  put(136, octal(mtime, 12))
+  // the checksum is computed with its own field filled with spaces
+  put(148, '        ')
+  put(156, type)
+  put(257, 'ustar\u000000')
+  put(345, prefix)
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0)
+  put(148, `${octal(checksum, 7)}\u0000 `)
+  return header
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { estimateEntryBytes, PlannedFile, planVolumes } from './volumePlan'
+import { ZipWriter } from './zipWriter'
+
+const files = (count: number, size: number): PlannedFile[] =>
+  Array.from({ length: count }, (_, index) => ({ path: `screens/screenshot_${index}.png`, size }))
+
+const randomBytes = (size: number): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(size)
+  // getRandomValues fills at most 64 KB per call
+  for (let offset = 0; offset < size; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, offset + 65536))
+  }
+  return bytes
+}
+
+describe('planVolumes', () => {
+  it('keeps everything in one volume without limits', () => {
+    expect(planVolumes(files(5, 1000), { maxArchiveBytes: 0, maxFilesPerArchive: 0 })).toHaveLength(1)
+  })
+
+  it('returns one empty volume for no files', () => {
+    expect(planVolumes([], { maxArchiveBytes: 1000, maxFilesPerArchive: 1 })).toEqual([[]])
+  })
+
+  it('splits by file count', () => {
+    const volumes = planVolumes(files(5, 10), { maxArchiveBytes: 0, maxFilesPerArchive: 2 })
+    expect(volumes.map((volume) => volume.length)).toEqual([2, 2, 1])
+  })
+
+  it('splits by size', () => {
+    const planned = files(4, 1000)
+    const perFile = estimateEntryBytes(planned[0])
+    const volumes = planVolumes(planned, { maxArchiveBytes: perFile * 2 + 200, maxFilesPerArchive: 0 })
+    expect(volumes.map((volume) => volume.length)).toEqual([2, 2])
+  })
+
+  it('gives a file larger than the limit a volume of its own', () => {
+    const planned = [...files(1, 10), { path: 'huge.png', size: 10_000 }, ...files(1, 10)]
+    const volumes = planVolumes(planned, { maxArchiveBytes: 5000, maxFilesPerArchive: 0 })
+    expect(volumes.map((volume) => volume.map(({ path }) => path))).toEqual([
+      [planned[0].path],
+      ['huge.png'],
+      [planned[2].path],
+    ])
+  })
+
+  it('leaves the reserved bytes free in every volume', () => {
+    const planned = files(4, 1000)
+    const perFile = estimateEntryBytes(planned[0])
+    const limits = { maxArchiveBytes: perFile * 2 + 200, maxFilesPerArchive: 0 }
+    expect(planVolumes(planned, limits)).toHaveLength(2)
+    expect(planVolumes(planned, { ...limits, reservedBytes: perFile })).toHaveLength(4)
+  })
+
+  it('counts non-ASCII names by their encoded length', () => {
+    expect(estimateEntryBytes({ path: 'снимок.png', size: 0 })).toBeGreaterThan(
+      estimateEntryBytes({ path: 'abcdef.png', size: 0 })
+    )
+  })
+
+  it.each(['store', 'deflate'] as const)('produces %s archives within the size limit', async (compression) => {
+    const data = [randomBytes(40_000), randomBytes(70_000), randomBytes(25_000), randomBytes(90_000), randomBytes(10)]
+    const planned = data.map((bytes, index) => ({ path: `screens/снимок_${index}.png`, size: bytes.length }))
+    const shared = { path: 'manifest.json', size: 2_000 }
+    const maxArchiveBytes = 150_000
+
+    const volumes = planVolumes(planned, { maxArchiveBytes, maxFilesPerArchive: 0, reservedBytes: estimateEntryBytes(shared) })
+    expect(volumes.length).toBeGreaterThan(1)
+
+    for (const volume of volumes) {
+      const writer = new ZipWriter(() => undefined, { compression })
+      for (const file of volume) {
+        await writer.addFile(file.path, new Blob([data[planned.indexOf(file)]]))
+      }
+      await writer.addFile(shared.path, new Blob([randomBytes(shared.size)]))
+      await writer.finish()
+      expect(writer.bytesWritten).toBeLessThanOrEqual(maxArchiveBytes)
+    }
+  })
+})
@@ -0,0 +1,64 @@
+/** A screenshot an archive sink is going to receive. */
+export interface PlannedFile {
+  path: string
+  size: number
+}
+
+export interface VolumeLimits {
+  maxArchiveBytes: number
+  maxFilesPerArchive: number
+  /** Kept free in every volume for the shared files. */
+  reservedBytes?: number
+}
+
+// local header + data descriptor + central directory record, excluding names
+const ZIP_ENTRY_OVERHEAD_BYTES = 92
+// end of central directory, plus the ZIP64 record and locator when present
+const ZIP_END_RECORDS_BYTES = 22 + 56 + 20
+
+const textEncoder = new TextEncoder()
+
+/**
+ * Upper bound of the bytes a file adds to a ZIP archive. Deflating data that
+ * does not compress can grow it slightly, so the data is counted with zlib's
+ * `deflateBound`; the name is stored twice (local and central header).
+ */
+export const estimateEntryBytes = ({ path, size }: PlannedFile): number => {
+  const deflatedBytes = size + (size >> 12) + (size >> 14) + (size >> 25) + 7
+  return deflatedBytes + ZIP_ENTRY_OVERHEAD_BYTES + textEncoder.encode(path).length * 2
+}
+
+/**
+ * Groups files into volumes that respect the size and file-count limits. A
+ * file larger than the size limit still gets a volume of its own.
+ */
+export const planVolumes = (
+  files: PlannedFile[],
+  { maxArchiveBytes, maxFilesPerArchive, reservedBytes = 0 }: VolumeLimits
+): PlannedFile[][] => {
+  const emptyVolumeBytes = ZIP_END_RECORDS_BYTES + reservedBytes
+  const volumes: PlannedFile[][] = []
+  let current: PlannedFile[] = []
+  let currentBytes = emptyVolumeBytes
+
+  for (const file of files) {
+    const fileBytes = estimateEntryBytes(file)
+    const exceedsFiles = maxFilesPerArchive > 0 && current.length >= maxFilesPerArchive
+    const exceedsBytes = maxArchiveBytes > 0 && currentBytes + fileBytes > maxArchiveBytes
+
+    if (current.length && (exceedsFiles || exceedsBytes)) {
+      volumes.push(current)
+      current = []
+      currentBytes = emptyVolumeBytes
+    }
+
+    current.push(file)
+    currentBytes += fileBytes
+  }
+
+  if (current.length || !volumes.length) {
+    volumes.push(current)
+  }
+
+  return volumes
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest'
+import { crc32, ZipCompression, ZipWriter } from './zipWriter'
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+interface ZipEntry {
+  name: string
+  method: number
+  flags: number
+  crc: number
+  compressedSize: number
+  uncompressedSize: number
+  offset: number
+  dosTime: number
+  dosDate: number
+}
+
+interface ZipDirectory {
+  entries: ZipEntry[]
+  zip64: boolean
+}
+
+const writeZip = async (
+  files: [string, Uint8Array<ArrayBuffer> | string][],
+  compression: ZipCompression,
+  date = new Date('2024-05-06T07:08:10Z')
+) => {
+  const chunks: Uint8Array[] = []
+  const writer = new ZipWriter(
+    (chunk) => {
+      chunks.push(chunk.slice())
+    },
+    { compression }
+  )
+  for (const [name, data] of files) {
+    await writer.addFile(name, new Blob([data]), { date })
+  }
+  await writer.finish()
+
+  const archive = new Uint8Array(await new Blob(chunks as BlobPart[]).arrayBuffer())
+  expect(archive.length).toBe(writer.bytesWritten)
+  return archive
+}
+
+/** Reads the central directory through the end records, following the ZIP64 locator when present. */
+const readDirectory = (archive: Uint8Array): ZipDirectory => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  const end = archive.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  let count = view.getUint16(end + 10, true)
+  let directoryOffset = view.getUint32(end + 16, true)
+  const zip64 = view.getUint32(end - 20, true) === 0x07064b50
+  if (zip64) {
+    const record = Number(view.getBigUint64(end - 20 + 8, true))
+    expect(view.getUint32(record, true)).toBe(0x06064b50)
+    count = Number(view.getBigUint64(record + 32, true))
+    directoryOffset = Number(view.getBigUint64(record + 48, true))
+  }
+
+  const entries: ZipEntry[] = []
+  for (let offset = directoryOffset, index = 0; index < count; index += 1) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    entries.push({
+      name: textDecoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength)),
+      flags: view.getUint16(offset + 8, true),
+      method: view.getUint16(offset + 10, true),
+      dosTime: view.getUint16(offset + 12, true),
+      dosDate: view.getUint16(offset + 14, true),
+      crc: view.getUint32(offset + 16, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      offset: view.getUint32(offset + 42, true),
+    })
+    offset += 46 + nameLength + extraLength
+  }
+  return { entries, zip64 }
+}
+
+const readEntryData = async (archive: Uint8Array, entry: ZipEntry): Promise<Uint8Array> => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  expect(view.getUint32(entry.offset, true)).toBe(0x04034b50)
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true)
+  const compressed = archive.slice(start, start + entry.compressedSize)
+  if (entry.method === 0) {
+    return compressed
+  }
+
+  const inflated = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(inflated).arrayBuffer())
+}
+
+describe('ZipWriter', () => {
+  it.each([
+    ['store', 0],
+    ['deflate', 8],
+  ] as const)('writes %s entries that read back intact', async (compression, method) => {
+    const text = 'screenshot '.repeat(500)
+    const binary = new Uint8Array(300).map((_, index) => (index * 7) & 0xff)
+    const archive = await writeZip(
+      [
+        ['screens/a.png', text],
+        ['screens/снимок.png', binary],
+        ['empty.txt', ''],
+      ],
+      compression
+    )
+
+    const { entries, zip64 } = readDirectory(archive)
+    expect(zip64).toBe(false)
+    expect(entries.map(({ name }) => name)).toEqual(['screens/a.png', 'screens/снимок.png', 'empty.txt'])
+
+    const expected = [textEncoder.encode(text), binary, new Uint8Array()]
+    for (const [index, entry] of entries.entries()) {
+      expect(entry.method).toBe(method)
+      // names are flagged as UTF-8
+      expect(entry.flags & 0x0800).toBe(0x0800)
+      expect(entry.uncompressedSize).toBe(expected[index].length)
+      expect(entry.crc).toBe(crc32(expected[index]))
+      expect(await readEntryData(archive, entry)).toEqual(expected[index])
+    }
+  })
+
+  it('compresses repetitive data when deflating', async () => {
+    const text = 'a'.repeat(10_000)
+    const [entry] = readDirectory(await writeZip([['a.txt', text]], 'deflate')).entries
+    expect(entry.compressedSize).toBeLessThan(text.length / 10)
+  })
+
+  it('writes stored entries with their sizes in the local header', async () => {
+    const archive = await writeZip([['a.txt', 'hello']], 'store')
+    const view = new DataView(archive.buffer)
+    expect(view.getUint16(6, true) & 0x0008).toBe(0)
+    expect(view.getUint32(14, true)).toBe(crc32(textEncoder.encode('hello')))
+    expect(view.getUint32(18, true)).toBe(5)
+    expect(view.getUint32(22, true)).toBe(5)
+  })
+
+  it('encodes the entry date as DOS date and time in UTC', async () => {
+    const [entry] = readDirectory(await writeZip([['a.txt', 'x']], 'store')).entries
+    expect(entry.dosDate).toBe(((2024 - 1980) << 9) | (5 << 5) | 6)
+    expect(entry.dosTime).toBe((7 << 11) | (8 << 5) | 5)
+  })
+
+  it('adds ZIP64 end records once the entry count no longer fits 16 bits', async () => {
+    const count = 0xffff
+    const archive = await writeZip(
+      Array.from({ length: count }, (_, index) => [`${index}`, ''] as [string, string]),
+      'store'
+    )
+
+    const view = new DataView(archive.buffer)
+    const end = archive.length - 22
+    expect(view.getUint16(end + 8, true)).toBe(0xffff)
+    expect(view.getUint16(end + 10, true)).toBe(0xffff)
+
+    const { entries, zip64 } = readDirectory(archive)
+    expect(zip64).toBe(true)
+    expect(entries).toHaveLength(count)
+    expect(entries[count - 1].name).toBe(`${count - 1}`)
+  }, 60_000)
+
+  it('rejects files after finishing', async () => {
+    const writer = new ZipWriter(() => undefined)
+    await writer.finish()
+    await expect(writer.addFile('late.txt', new Blob(['x']))).rejects.toThrow('finished ZIP archive')
+  })
+})
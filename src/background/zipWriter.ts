@@ -0,0 +1,301 @@
+type ChunkSink = (chunk: Uint8Array) => void | Promise<void>
+
+/** `store` copies entries as is: screenshots are already compressed, so deflating them mostly costs CPU. */
+export type ZipCompression = 'deflate' | 'store'
+
+interface CentralDirectoryEntry {
+  name: Uint8Array
+  crc: number
+  compressedSize: number
+  uncompressedSize: number
+  offset: number
+  dosTime: number
+  dosDate: number
+  method: number
+  flags: number
+}
+
+export interface ZipWriterOptions {
+  compression?: ZipCompression
+}
+
+export interface ZipEntryOptions {
+  date?: Date
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07064b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const ZIP_VERSION = 20
+const ZIP64_VERSION = 45
+const UTF8_FLAG = 0x0800
+// sizes and CRC follow the data
+const DATA_DESCRIPTOR_FLAG = 0x0008
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+const ZIP64_EXTRA_FIELD_ID = 0x0001
+// counts, sizes, and offsets at these values mean "see the ZIP64 record"
+const MAX_16BIT = 0xffff
+const MAX_32BIT = 0xffffffff
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+/**
+ * Minimal streaming ZIP writer. Every produced chunk is handed to `sink` right
+ * away, so memory usage stays bounded by the chunk size rather than the
+ * archive size. Deflated entries are compressed on the fly and followed by a
+ * data descriptor; stored entries are read twice (CRC first) so their header
+ * carries the final values. Archives past 4 GB or 65,535 entries get ZIP64
+ * records; single entries are still limited to 4 GB.
+ */
+export class ZipWriter {
+  private readonly entries: CentralDirectoryEntry[] = []
+  private readonly compression: ZipCompression
+  private offset = 0
+  private finished = false
+
+  constructor(
+    private readonly sink: ChunkSink,
+    { compression = 'deflate' }: ZipWriterOptions = {}
+  ) {
+    this.compression = compression
+  }
+
+  get bytesWritten(): number {
+    return this.offset
+  }
+
+  async addFile(name: string, data: Blob, { date = new Date() }: ZipEntryOptions = {}): Promise<void> {
+    if (this.finished) {
+      throw new Error('Cannot add files to a finished ZIP archive.')
+    }
+
+    const encodedName = textEncoder.encode(name)
+    const { dosTime, dosDate } = toDosDateTime(date)
+    const entry = { name: encodedName, offset: this.offset, dosTime, dosDate }
+
+    this.entries.push(
+      this.compression === 'store'
+        ? await this.writeStored(entry, data)
+        : await this.writeDeflated(entry, data)
+    )
+  }
+
+  async finish(): Promise<void> {
+    if (this.finished) {
+      return
+    }
+    this.finished = true
+
+    const centralDirectoryOffset = this.offset
+
+    for (const entry of this.entries) {
+      const zip64 = entry.offset >= MAX_32BIT
+      const extra = zip64 ? zip64OffsetField(entry.offset) : new Uint8Array()
+      const version = zip64 ? ZIP64_VERSION : ZIP_VERSION
+
+      const header = new DataView(new ArrayBuffer(46))
+      header.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true)
+      header.setUint16(4, version, true)
+      header.setUint16(6, version, true)
+      header.setUint16(8, entry.flags, true)
+      header.setUint16(10, entry.method, true)
+      header.setUint16(12, entry.dosTime, true)
+      header.setUint16(14, entry.dosDate, true)
+      header.setUint32(16, entry.crc, true)
+      header.setUint32(20, entry.compressedSize, true)
+      header.setUint32(24, entry.uncompressedSize, true)
+      header.setUint16(28, entry.name.length, true)
+      header.setUint16(30, extra.length, true)
+      // comment, disk number, internal and external attributes stay zero
+      header.setUint32(42, zip64 ? MAX_32BIT : entry.offset, true)
+
+      await this.write(new Uint8Array(header.buffer))
+      await this.write(entry.name)
+      await this.write(extra)
+    }
+
+    const centralDirectorySize = this.offset - centralDirectoryOffset
+    const needsZip64 =
+      this.entries.length >= MAX_16BIT || centralDirectoryOffset >= MAX_32BIT || centralDirectorySize >= MAX_32BIT
+
+    if (needsZip64) {
+      const zip64EndOffset = this.offset
+      const record = new DataView(new ArrayBuffer(56))
+      record.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+      // size of the rest of the record
+      record.setBigUint64(4, 44n, true)
+      record.setUint16(12, ZIP64_VERSION, true)
+      record.setUint16(14, ZIP64_VERSION, true)
+      // disk numbers (offsets 16-23) stay zero
+      record.setBigUint64(24, BigInt(this.entries.length), true)
+      record.setBigUint64(32, BigInt(this.entries.length), true)
+      record.setBigUint64(40, BigInt(centralDirectorySize), true)
+      record.setBigUint64(48, BigInt(centralDirectoryOffset), true)
+      await this.write(new Uint8Array(record.buffer))
+
+      const locator = new DataView(new ArrayBuffer(20))
+      locator.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE, true)
+      locator.setBigUint64(8, BigInt(zip64EndOffset), true)
+      locator.setUint32(16, 1, true)
+      await this.write(new Uint8Array(locator.buffer))
+    }
+
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+    end.setUint16(8, Math.min(this.entries.length, MAX_16BIT), true)
+    end.setUint16(10, Math.min(this.entries.length, MAX_16BIT), true)
+    end.setUint32(12, Math.min(centralDirectorySize, MAX_32BIT), true)
+    end.setUint32(16, Math.min(centralDirectoryOffset, MAX_32BIT), true)
+    await this.write(new Uint8Array(end.buffer))
+  }
+
+  private async writeDeflated(
+    entry: Pick<CentralDirectoryEntry, 'name' | 'offset' | 'dosTime' | 'dosDate'>,
+    data: Blob
+  ): Promise<CentralDirectoryEntry> {
+    const flags = UTF8_FLAG | DATA_DESCRIPTOR_FLAG
+    // CRC and sizes are left at zero and written in the data descriptor.
+    await this.writeLocalHeader(entry, { flags, method: METHOD_DEFLATE, crc: 0, size: 0, compressedSize: 0 })
+
+    let crc = 0
+    let uncompressedSize = 0
+    let compressedSize = 0
+
+    const compressed = data
+      .stream()
+      .pipeThrough(
+        new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+          transform(chunk, controller) {
+            crc = crc32(chunk, crc)
+            uncompressedSize += chunk.length
+            controller.enqueue(chunk)
+          },
+        })
+      )
+      .pipeThrough(new CompressionStream('deflate-raw'))
+
+    const reader = compressed.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+      compressedSize += value.length
+      await this.write(value)
+    }
+
+    if (uncompressedSize > MAX_32BIT || compressedSize > MAX_32BIT) {
+      throw new Error(`${textDecoder.decode(entry.name)} is too large to be stored in a ZIP archive.`)
+    }
+
+    const descriptor = new DataView(new ArrayBuffer(16))
+    descriptor.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true)
+    descriptor.setUint32(4, crc, true)
+    descriptor.setUint32(8, compressedSize, true)
+    descriptor.setUint32(12, uncompressedSize, true)
+    await this.write(new Uint8Array(descriptor.buffer))
+
+    return { ...entry, crc, compressedSize, uncompressedSize, method: METHOD_DEFLATE, flags }
+  }
+
+  private async writeStored(
+    entry: Pick<CentralDirectoryEntry, 'name' | 'offset' | 'dosTime' | 'dosDate'>,
+    data: Blob
+  ): Promise<CentralDirectoryEntry> {
+    if (data.size > MAX_32BIT) {
+      throw new Error(`${textDecoder.decode(entry.name)} is too large to be stored in a ZIP archive.`)
+    }
+
+    let crc = 0
+    for await (const chunk of readChunks(data)) {
+      crc = crc32(chunk, crc)
+    }
+
+    const flags = UTF8_FLAG
+    await this.writeLocalHeader(entry, { flags, method: METHOD_STORE, crc, size: data.size, compressedSize: data.size })
+    for await (const chunk of readChunks(data)) {
+      await this.write(chunk)
+    }
+
+    return { ...entry, crc, compressedSize: data.size, uncompressedSize: data.size, method: METHOD_STORE, flags }
+  }
+
+  private async writeLocalHeader(
+    { name, dosTime, dosDate }: Pick<CentralDirectoryEntry, 'name' | 'dosTime' | 'dosDate'>,
+    { flags, method, crc, size, compressedSize }: { flags: number; method: number; crc: number; size: number; compressedSize: number }
+  ) {
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true)
+    header.setUint16(4, ZIP_VERSION, true)
+    header.setUint16(6, flags, true)
+    header.setUint16(8, method, true)
+    header.setUint16(10, dosTime, true)
+    header.setUint16(12, dosDate, true)
+    header.setUint32(14, crc, true)
+    header.setUint32(18, compressedSize, true)
+    header.setUint32(22, size, true)
+    header.setUint16(26, name.length, true)
+    header.setUint16(28, 0, true)
+
+    await this.write(new Uint8Array(header.buffer))
+    await this.write(name)
+  }
+
+  private async write(chunk: Uint8Array) {
+    this.offset += chunk.length
+    await this.sink(chunk)
+  }
+}
+
+async function* readChunks(data: Blob): AsyncGenerator<Uint8Array> {
+  const reader = data.stream().getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      return
+    }
+    yield value
+  }
+}
+
+/** ZIP64 extended information field carrying only the local header offset. */
+const zip64OffsetField = (offset: number): Uint8Array => {
+  const field = new DataView(new ArrayBuffer(12))
+  field.setUint16(0, ZIP64_EXTRA_FIELD_ID, true)
+  field.setUint16(2, 8, true)
+  field.setBigUint64(4, BigInt(offset), true)
+  return new Uint8Array(field.buffer)
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n += 1) {
+    let c = n
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export const crc32 = (bytes: Uint8Array, previous = 0): number => {
+  let crc = previous ^ 0xffffffff
+  for (let i = 0; i < bytes.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(1980, date.getUTCFullYear())
+  return {
+    dosTime: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  }
+}
@@ -1,18 +1,11 @@
 import { DownloadPanel } from './ui/panel'
-import { LightshotClient, ScreenMeta } from '../domain/lightshotClient'
-
-type BackgroundMessage =
-  | { type: 'start'; total: number; concurrency: number }
-  | { type: 'progress'; total: number; completed: number; currentId: string; succeeded?: number; failed?: number }
-  | { type: 'status'; message: string }
-  | { type: 'log'; level: 'info' | 'warn'; message: string }
-  | { type: 'done'; total: number; failed: number; processed?: number; succeeded?: number; downloadId?: number }
-  | { type: 'error'; message: string }
-  | { type: 'cancelled' }
-
-type BackgroundRequest =
-  | { type: 'download'; concurrency: number; sequential: boolean; throttleMs: number; screens: ScreenMeta[] }
-  | { type: 'cancel' }
+import { DEFAULT_ACCOUNT, LightshotClient, ScreenMeta } from '../domain/lightshotClient'
+import { onPendingJobsChanged, readPendingJobs } from '../shared/pendingJob'
+import { formatBytes } from '../shared/format'
+import { connectToBackground, GALLERY_PORT_NAME, GalleryMessage, GalleryRequest } from '../shared/protocol'
+import { collectScreens } from '../shared/collectScreens'
+import { describeScreenFilter, hasActiveFilter } from '../shared/screenFilter'
+import { readSyncState } from '../shared/syncState'
 
 declare global {
   interface HTMLElement {
@@ -28,6 +21,8 @@ const metadataClient = new LightshotClient()
 let activePort: chrome.runtime.Port | null = null
 let isDownloading = false
 let metadataController: AbortController | null = null
+let isPicking = false
+let lastAccount: string | null = null
 
 const header = document.querySelector('h1.page-header__title') as HTMLElement | null
 const toggleTarget = header ?? document.body
@@ -40,6 +35,32 @@ toggleButton.addEventListener('click', () => {
   }
 })
 
+const refreshResumeOffer = () => {
+  readPendingJobs()
+    .then((summaries) => panel.setResumeOffers(summaries))
+    .catch(() => {
+      // storage unavailable (e.g. extension reloaded); keep the panel as is
+    })
+}
+
+const refreshSyncHint = async (signal?: AbortSignal) => {
+  const account = await metadataClient.getAccountKey(signal)
+  const state = await readSyncState(account)
+  panel.setSyncHint(
+    state
+      ? `Last export ${formatDate(state.lastSyncAt)} (${state.ids.length} known)`
+      : 'No previous export yet'
+  )
+}
+
+refreshResumeOffer()
+// pick up a job started from another tab or the dashboard
+runInBackground({ type: 'attach' })
+onPendingJobsChanged((summaries) => panel.setResumeOffers(summaries))
+refreshSyncHint().catch(() => {
+  // keep the default hint
+})
+
 panel.onDownloadRequested((request) => {
   if (isBusy()) {
     panel.pushLog('A download is already running.', 'warn')
@@ -55,9 +76,31 @@ panel.onDownloadRequested((request) => {
     panel.setStatus('Collecting gallery metadata...')
 
     let screens: ScreenMeta[]
+    let account: string
+    let sinceLabel: string | null = null
+    let newCount = 0
+    let retriedCount = 0
 
     try {
-      screens = await metadataClient.getAllScreens(undefined, controller.signal)
+      account = await metadataClient.getAccountKey(controller.signal)
+      const collected = await collectScreens(metadataClient, account, request, controller.signal)
+      screens = collected.screens
+
+      if (request.onlyNew && !collected.syncState) {
+        panel.pushLog('No previous export found for this account; downloading everything.', 'warn')
+      }
+
+      if (collected.syncState) {
+        sinceLabel = formatDate(collected.syncState.lastSyncAt)
+        newCount = collected.newCount
+        retriedCount = collected.retriedCount
+      }
+
+      if (hasActiveFilter(request.filter)) {
+        panel.pushLog(
+          `Filters (${describeScreenFilter(request.filter)}) kept ${screens.length} of ${collected.unfilteredCount} screenshot(s).`
+        )
+      }
     } catch (error) {
       if (controller.signal.aborted) {
         panel.pushLog('Metadata collection cancelled.', 'warn')
@@ -79,67 +122,204 @@ panel.onDownloadRequested((request) => {
       metadataController = null
     }
 
+    if (sinceLabel) {
+      panel.setSyncHint(`${newCount} new since ${sinceLabel}${retriedCount ? `, ${retriedCount} to retry` : ''}`)
+      panel.pushLog(`${newCount} new screenshot(s) since ${sinceLabel}.`)
+      if (retriedCount) {
+        panel.pushLog(`Retrying ${retriedCount} screenshot(s) that failed in an earlier export.`)
+      }
+    }
+
     if (!screens.length) {
-      panel.pushLog('No screenshots found in your gallery.', 'warn')
-      panel.setStatus('No screenshots found.')
+      const message = hasActiveFilter(request.filter)
+        ? 'No screenshots match the selected filters.'
+        : sinceLabel
+          ? `No new screenshots since ${sinceLabel}.`
+          : 'No screenshots found in your gallery.'
+      panel.pushLog(message, 'warn')
+      panel.setStatus(sinceLabel ? 'Nothing new to download.' : 'No screenshots found.')
       panel.markDone(0, 0)
       isDownloading = false
       return
     }
 
+    if (request.pick) {
+      isPicking = true
+      const selection = await panel.pickScreens(screens)
+      isPicking = false
+
+      if (!selection) {
+        panel.pushLog('Selection cancelled.', 'warn')
+        panel.setStatus('Cancelled.')
+        panel.setBusy(false)
+        isDownloading = false
+        return
+      }
+
+      panel.pushLog(`${selection.length} screenshot(s) selected.`)
+      screens = selection
+    }
+
     const modeDescription = request.sequential
       ? `Sequential mode enabled (throttle ${request.throttleMs} ms).`
       : `Concurrent mode: ${request.concurrency} stream(s), throttle ${request.throttleMs} ms.`
     panel.pushLog(modeDescription)
+    panel.setTotal(screens.length)
+    lastAccount = account
+    runInBackground({ type: 'download', ...request, screens, account })
+  })()
+})
+
+panel.onResumeRequested((jobId, request) => {
+  if (isBusy()) {
+    panel.pushLog('A download is already running.', 'warn')
+    return
+  }
+
+  isDownloading = true
+  panel.pushLog('Resuming previous download...')
+  runInBackground({ type: 'continue', ...request, jobId })
+})
+
+// a short-lived port of its own, so it does not disturb a running download
+panel.onDiscardRequested((jobId) => {
+  const port = connectToBackground(GALLERY_PORT_NAME)
+  port.onMessage.addListener((message: GalleryMessage) => {
+    if (message.type === 'error') {
+      panel.pushLog(`Could not discard the download: ${message.message}`, 'warn')
+    }
+  })
+  port.postMessage({ type: 'discard', jobId } satisfies GalleryRequest)
+})
+
+panel.onRetryFailed((screens, request) => {
+  if (isBusy()) {
+    panel.pushLog('A download is already running.', 'warn')
+    return
+  }
+
+  isDownloading = true
+  panel.pushLog(`Retrying ${screens.length} failed screenshot(s) into a supplementary archive...`)
+  panel.setTotal(screens.length)
+
+  void (async () => {
+    const account = lastAccount ?? (await metadataClient.getAccountKey().catch(() => DEFAULT_ACCOUNT))
+    runInBackground({
+      type: 'download',
+      ...request,
+      filter: {},
+      screens,
+      account,
+      supplementary: true,
+    })
+  })()
+})
+
+panel.onCancel(() => {
+  if (metadataController) {
+    panel.pushLog('Cancelling metadata collection...')
+    metadataController.abort()
+    metadataController = null
+    isDownloading = false
+    return
+  }
+
+  if (!activePort || !isDownloading) {
+    return
+  }
+
+  panel.pushLog('Cancelling download...')
+  activePort.postMessage({ type: 'cancel' } satisfies GalleryRequest)
+})
+
+panel.onPauseToggle((paused) => {
+  if (!activePort || !isDownloading) {
+    return
+  }
+
+  activePort.postMessage({ type: paused ? 'pause' : 'resume' } satisfies GalleryRequest)
+})
+
+function isBusy(): boolean {
+  return Boolean(metadataController) || Boolean(activePort) || isPicking
+}
+
+function runInBackground(request: GalleryRequest) {
+  if (request.type !== 'attach') {
     panel.setStatus('Connecting to background worker...')
+  }
 
-    const port = chrome.runtime.connect({ name: 'lightshot-download' })
-    activePort = port
+  const port = connectToBackground(GALLERY_PORT_NAME)
+  activePort = port
 
-    const cleanup = () => {
-      if (activePort !== port) {
-        return
-      }
+  const cleanup = () => {
+    if (activePort !== port) {
+      return
+    }
 
-      isDownloading = false
-      panel.setBusy(false)
+    isDownloading = false
+    panel.setBusy(false)
 
-      port.onMessage.removeListener(handleMessage)
-      try {
-        port.disconnect()
-      } catch {
-        // ignore
-      }
-      activePort = null
+    port.onMessage.removeListener(handleMessage)
+    try {
+      port.disconnect()
+    } catch {
+      // ignore
     }
+    activePort = null
+  }
 
-    const handleMessage = (message: BackgroundMessage) => {
-      switch (message.type) {
-        case 'start':
-          panel.setTotal(message.total)
-          panel.pushLog(`Downloading ${message.total} file(s) with concurrency ${message.concurrency}.`)
-          break
+  const handleMessage = (message: GalleryMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        break
+      case 'attached':
+        isDownloading = true
+        panel.resetForAttach()
+        panel.setPauseAvailable(true)
+        panel.pushLog('Following a download that is already running in the background.')
+        break
+      case 'start':
+        panel.setTotal(message.total)
+        panel.pushLog(`Downloading ${message.total} file(s) with concurrency ${message.concurrency}.`)
+        if (message.resumed) {
+          panel.updateProgress(message.resumed)
+        }
+        break
       case 'progress':
+        if (message.phase === 'packaging') {
+          panel.setStatus(`Packaging (${message.completed}/${message.total}, ${formatBytes(message.bytes ?? 0)})`)
+          break
+        }
         {
           const completed = message.completed ?? 0
-          const total = message.total ?? screens.length
+          const total = message.total ?? 0
           panel.updateProgress(completed)
 
           const failed = message.failed ?? 0
-          if (failed > 0) {
+          if (panel.isPaused()) {
+            panel.showPausedStatus()
+          } else if (failed > 0) {
             panel.setStatusWithFailureHint({ completed, total, failed })
           } else {
             panel.setStatus(`Downloading screenshots (${completed}/${total})`)
           }
         }
         break
-        case 'status':
-          panel.setStatus(message.message)
-          panel.pushLog(message.message)
-          break
-        case 'log':
-          panel.pushLog(message.message, message.level)
-          break
+      case 'status':
+        panel.setStatus(message.message)
+        panel.pushLog(message.message)
+        break
+      case 'log':
+        panel.pushLog(message.message, message.level)
+        break
+      case 'rate':
+        panel.updateRate(message)
+        break
+      case 'paused':
+        panel.setPaused(message.paused)
+        panel.pushLog(message.paused ? 'Download paused.' : 'Download resumed.')
+        break
       case 'done':
         {
           const processed = message.processed ?? message.total ?? 0
@@ -147,66 +327,71 @@ panel.onDownloadRequested((request) => {
           const failed = message.failed ?? 0
           panel.updateProgress(processed)
           panel.markDone(succeeded, failed)
+          if (message.duplicates) {
+            panel.pushLog(`${message.duplicates} duplicate image(s) were stored once and mapped in the manifest.`)
+          }
           if (failed) {
-            panel.pushLog(`${failed} screenshot(s) failed to download (missing on lightshot servers).`, 'warn')
+            panel.pushLog(`${failed} screenshot(s) failed to download. Use "Retry failed" to try them again.`, 'warn')
           }
-          panel.pushLog('Download started in Chrome. You can follow it in the Downloads panel.')
-          
+          panel.setFailures(message.failures ?? [])
+          panel.pushLog(describeOutput(message))
+          refreshSyncHint().catch(() => {
+            // keep the current hint
+          })
+
           cleanup()
         }
         break
-        case 'error':
+      case 'volume':
+        panel.pushLog(
+          message.count > 1
+            ? `Saved ${message.filename} (${message.index}/${message.count}): ${message.files} file(s), ${formatBytes(message.bytes)}.`
+            : `Saved ${message.filename}: ${message.files} file(s), ${formatBytes(message.bytes)}.`
+        )
+        break
+      case 'error':
+        // nothing to follow when checking for a running job on page load
+        if (!(request.type === 'attach' && message.code === 'not_found')) {
           panel.showError(message.message)
-          cleanup()
-          break
-        case 'cancelled':
-          panel.pushLog('Download cancelled.', 'warn')
-          panel.setStatus('Cancelled.')
-          panel.setBusy(false)
-          cleanup()
-          break
-        default:
-          break
-      }
-    }
-
-    port.onMessage.addListener(handleMessage)
-    port.onDisconnect.addListener(() => {
-      if (activePort === port) {
-        isDownloading = false
+        }
+        cleanup()
+        break
+      case 'cancelled':
+        panel.pushLog('Download cancelled.', 'warn')
+        panel.setStatus('Cancelled.')
         panel.setBusy(false)
-        activePort = null
-      }
-    })
+        cleanup()
+        break
+      default:
+        break
+    }
+  }
 
-    panel.setTotal(screens.length)
-    port.postMessage({
-      type: 'download',
-      concurrency: request.concurrency,
-      sequential: request.sequential,
-      throttleMs: request.throttleMs,
-      screens,
-    } satisfies BackgroundRequest)
-  })()
-})
+  port.onMessage.addListener(handleMessage)
+  port.onDisconnect.addListener(() => {
+    if (activePort === port) {
+      isDownloading = false
+      panel.setBusy(false)
+      activePort = null
+    }
+  })
 
-panel.onCancel(() => {
-  if (metadataController) {
-    panel.pushLog('Cancelling metadata collection...')
-    metadataController.abort()
-    metadataController = null
-    isDownloading = false
-    return
+  port.postMessage(request)
+  if (request.type === 'download' || request.type === 'continue') {
+    panel.setPauseAvailable(true)
   }
+}
 
-  if (!activePort || !isDownloading) {
-    return
+/** Where a finished job put its files; a local folder creates no Chrome download. */
+function describeOutput({ outputFormat, folder }: Extract<GalleryMessage, { type: 'done' }>): string {
+  if (folder) {
+    return `Files were written to the folder "${folder}".`
   }
+  return outputFormat === 'files'
+    ? 'Files were saved one by one into your downloads folder. You can follow them in the Downloads panel.'
+    : 'Download started in Chrome. You can follow it in the Downloads panel.'
+}
 
-  panel.pushLog('Cancelling download...')
-  activePort.postMessage({ type: 'cancel' } satisfies BackgroundRequest)
-})
-
-function isBusy(): boolean {
-  return Boolean(metadataController) || Boolean(activePort)
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
 }
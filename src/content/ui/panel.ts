@@ -1,17 +1,47 @@
-export interface DownloadRequest {
-  concurrency: number
-  sequential: boolean
-  throttleMs: number
-}
+import { DEFAULT_FILENAME_TEMPLATE, NamingOptions, normalizeNaming } from '../../shared/filenameTemplate'
+import { ScreenMeta } from '../../domain/lightshotClient'
+import { describeFailure, FailedScreen } from '../../shared/failures'
+import { PendingJobSummary } from '../../shared/pendingJob'
+import { RateSnapshot } from '../../shared/protocol'
+import { normalizeScreenFilter, ScreenFilter } from '../../shared/screenFilter'
+import {
+  deletePreset,
+  DownloadPreset,
+  DownloadSettings,
+  listPresets,
+  normalizePresetName,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  pickPresetSettings,
+  readSettings,
+  savePreset,
+  writeSettings,
+} from '../../shared/settings'
+import { RateChart } from './rateChart'
+import { ScreenPicker } from './screenPicker'
+
+export type DownloadRequest = DownloadSettings
 
 type DownloadHandler = (request: DownloadRequest) => void
 type CancelHandler = () => void
+type PauseHandler = (paused: boolean) => void
+type ResumeHandler = (jobId: string, request: DownloadRequest) => void
+type DiscardHandler = (jobId: string) => void
+type RetryFailedHandler = (screens: ScreenMeta[], request: DownloadRequest) => void
 
 const PANEL_ID = 'lgd-panel'
 const BUTTON_ID = 'lgd-toggle-button'
 const DEFAULT_CONCURRENCY = 4
 const DEFAULT_THROTTLE_MS = 150
 const MAX_THROTTLE_MS = 5000
+const DEFAULT_RETRY_ATTEMPTS = 3
+const MAX_RETRY_ATTEMPTS = 10
+const DEFAULT_RETRY_BASE_DELAY_MS = 500
+const MAX_RETRY_BASE_DELAY_MS = 60_000
+const DEFAULT_TIMEOUT_SECONDS = 30
+const DEFAULT_STALL_TIMEOUT_SECONDS = 15
+const MAX_TIMEOUT_SECONDS = 600
+const SETTINGS_SAVE_DELAY_MS = 500
 
 export class DownloadPanel {
   private readonly root: HTMLDivElement
@@ -21,15 +51,57 @@ export class DownloadPanel {
   private readonly logContainer: HTMLDivElement
   private readonly startButton: HTMLButtonElement
   private readonly cancelButton: HTMLButtonElement
+  private readonly pauseButton: HTMLButtonElement
+  private readonly resumeOffer: HTMLDivElement
+  private readonly resumeButton: HTMLButtonElement
+  private readonly discardResumeButton: HTMLButtonElement
   private readonly concurrencyInput: HTMLInputElement
   private readonly sequentialInput: HTMLInputElement
   private readonly throttleInput: HTMLInputElement
+  private readonly adaptiveInput: HTMLInputElement
+  private readonly retryAttemptsInput: HTMLInputElement
+  private readonly retryBaseDelayInput: HTMLInputElement
+  private readonly timeoutInput: HTMLInputElement
+  private readonly stallTimeoutInput: HTMLInputElement
+  private readonly dedupeInput: HTMLInputElement
+  private readonly dedupeAcrossRunsInput: HTMLInputElement
+  private readonly embedMetadataInput: HTMLInputElement
+  private readonly outputFormatInput: HTMLSelectElement
+  private readonly maxArchiveInput: HTMLInputElement
+  private readonly maxFilesInput: HTMLInputElement
+  private readonly onlyNewInput: HTMLInputElement
+  private readonly templateInput: HTMLInputElement
+  private readonly folderLayoutInput: HTMLSelectElement
+  private readonly filterInputs: HTMLInputElement[]
+  private readonly pickInput: HTMLInputElement
+  private readonly pickerSection: HTMLDivElement
+  private readonly pickerConfirmButton: HTMLButtonElement
+  private readonly picker = new ScreenPicker()
+  private readonly rateChart = new RateChart()
+  private readonly failuresSection: HTMLDivElement
+  private readonly failuresList: HTMLUListElement
+  private readonly retryFailedButton: HTMLButtonElement
+  private readonly syncHint: HTMLSpanElement
+  private readonly presetSelect: HTMLSelectElement
+  private readonly presetDeleteButton: HTMLButtonElement
   private readonly creditsLink: HTMLAnchorElement
 
   private totalScreens = 0
   private completedScreens = 0
+  // resumable jobs, most recent first; the panel offers the first one
+  private pendingJobs: PendingJobSummary[] = []
+  private resolvePick: ((selection: ScreenMeta[] | null) => void) | null = null
+  private failures: FailedScreen[] = []
+  private presets: DownloadPreset[] = []
+  private saveSettingsTimer: ReturnType<typeof setTimeout> | undefined
+  private busy = false
+  private paused = false
   private readonly downloadHandlers = new Set<DownloadHandler>()
   private readonly cancelHandlers = new Set<CancelHandler>()
+  private readonly pauseHandlers = new Set<PauseHandler>()
+  private readonly resumeHandlers = new Set<ResumeHandler>()
+  private readonly discardHandlers = new Set<DiscardHandler>()
+  private readonly retryFailedHandlers = new Set<RetryFailedHandler>()
 
   constructor() {
     this.root = this.createPanel()
@@ -37,11 +109,41 @@ export class DownloadPanel {
     this.progressFill = this.root.querySelector('[data-lgd-progress-bar]') as HTMLSpanElement
     this.progressLabel = this.root.querySelector('[data-lgd-progress-label]') as HTMLSpanElement
     this.logContainer = this.root.querySelector('[data-lgd-log]') as HTMLDivElement
+    this.logContainer.before(this.rateChart.element)
     this.startButton = this.root.querySelector('button.lgd-start') as HTMLButtonElement
     this.cancelButton = this.root.querySelector('button.lgd-cancel') as HTMLButtonElement
+    this.pauseButton = this.root.querySelector('button.lgd-pause') as HTMLButtonElement
+    this.resumeOffer = this.root.querySelector('.lgd-resume-offer') as HTMLDivElement
+    this.resumeButton = this.root.querySelector('button.lgd-resume') as HTMLButtonElement
+    this.discardResumeButton = this.root.querySelector('button.lgd-discard-resume') as HTMLButtonElement
     this.concurrencyInput = this.root.querySelector('input.lgd-concurrency') as HTMLInputElement
     this.sequentialInput = this.root.querySelector('input.lgd-sequential') as HTMLInputElement
     this.throttleInput = this.root.querySelector('input.lgd-throttle') as HTMLInputElement
+    this.adaptiveInput = this.root.querySelector('input.lgd-adaptive') as HTMLInputElement
+    this.retryAttemptsInput = this.root.querySelector('input.lgd-retry-attempts') as HTMLInputElement
+    this.retryBaseDelayInput = this.root.querySelector('input.lgd-retry-delay') as HTMLInputElement
+    this.timeoutInput = this.root.querySelector('input.lgd-timeout') as HTMLInputElement
+    this.stallTimeoutInput = this.root.querySelector('input.lgd-stall-timeout') as HTMLInputElement
+    this.dedupeInput = this.root.querySelector('input.lgd-dedupe') as HTMLInputElement
+    this.dedupeAcrossRunsInput = this.root.querySelector('input.lgd-dedupe-across-runs') as HTMLInputElement
+    this.embedMetadataInput = this.root.querySelector('input.lgd-embed-metadata') as HTMLInputElement
+    this.outputFormatInput = this.root.querySelector('select.lgd-output-format') as HTMLSelectElement
+    this.maxArchiveInput = this.root.querySelector('input.lgd-max-archive') as HTMLInputElement
+    this.maxFilesInput = this.root.querySelector('input.lgd-max-files') as HTMLInputElement
+    this.onlyNewInput = this.root.querySelector('input.lgd-only-new') as HTMLInputElement
+    this.syncHint = this.root.querySelector('[data-lgd-sync-hint]') as HTMLSpanElement
+    this.templateInput = this.root.querySelector('input.lgd-template') as HTMLInputElement
+    this.folderLayoutInput = this.root.querySelector('select.lgd-folder-layout') as HTMLSelectElement
+    this.filterInputs = Array.from(this.root.querySelectorAll<HTMLInputElement>('input[data-lgd-filter]'))
+    this.pickInput = this.root.querySelector('input.lgd-pick') as HTMLInputElement
+    this.pickerSection = this.root.querySelector('[data-lgd-picker]') as HTMLDivElement
+    this.pickerConfirmButton = this.root.querySelector('button.lgd-picker-confirm') as HTMLButtonElement
+    this.pickerSection.prepend(this.picker.element)
+    this.failuresSection = this.root.querySelector('[data-lgd-failures]') as HTMLDivElement
+    this.failuresList = this.root.querySelector('[data-lgd-failures-list]') as HTMLUListElement
+    this.retryFailedButton = this.root.querySelector('button.lgd-retry-failed') as HTMLButtonElement
+    this.presetSelect = this.root.querySelector('select.lgd-preset') as HTMLSelectElement
+    this.presetDeleteButton = this.root.querySelector('button.lgd-preset-delete') as HTMLButtonElement
     this.creditsLink = this.root.querySelector('[data-lgd-credits]') as HTMLAnchorElement
 
     this.initializeDefaults()
@@ -95,6 +197,43 @@ export class DownloadPanel {
     this.cancelHandlers.add(handler)
   }
 
+  /** Called with the requested state; the panel only switches once `setPaused` confirms it. */
+  onPauseToggle(handler: PauseHandler) {
+    this.pauseHandlers.add(handler)
+  }
+
+  onResumeRequested(handler: ResumeHandler) {
+    this.resumeHandlers.add(handler)
+  }
+
+  onDiscardRequested(handler: DiscardHandler) {
+    this.discardHandlers.add(handler)
+  }
+
+  onRetryFailed(handler: RetryFailedHandler) {
+    this.retryFailedHandlers.add(handler)
+  }
+
+  setFailures(failures: FailedScreen[]) {
+    this.failures = failures
+    this.failuresList.replaceChildren(
+      ...failures.map((failure) => {
+        const item = document.createElement('li')
+        item.className = 'lgd-truncate'
+        item.title = failure.reason
+        item.textContent = `${failure.screen.id36} — ${describeFailure(failure)}: ${failure.reason}`
+        return item
+      })
+    )
+    this.retryFailedButton.textContent = `Retry failed (${failures.length})`
+    this.updateFailuresSection()
+  }
+
+  setResumeOffers(summaries: PendingJobSummary[]) {
+    this.pendingJobs = summaries
+    this.updateResumeButton()
+  }
+
   reset() {
     this.totalScreens = 0
     this.completedScreens = 0
@@ -102,20 +241,63 @@ export class DownloadPanel {
     this.progressFill.style.width = '0%'
     this.progressLabel.textContent = '0 / 0'
     this.logContainer.innerHTML = ''
+    this.rateChart.reset()
     this.startButton.disabled = false
     this.cancelButton.disabled = true
     this.sequentialInput.disabled = false
     this.throttleInput.disabled = false
+    this.adaptiveInput.disabled = false
+    this.retryAttemptsInput.disabled = false
+    this.retryBaseDelayInput.disabled = false
+    this.timeoutInput.disabled = false
+    this.stallTimeoutInput.disabled = false
+    this.dedupeInput.disabled = false
+    this.updateDedupeAcrossRunsDisabled(false)
+    this.embedMetadataInput.disabled = false
+    this.outputFormatInput.disabled = false
+    this.updateArchiveLimitsDisabled(false)
+    this.onlyNewInput.disabled = false
+    this.templateInput.disabled = false
+    this.folderLayoutInput.disabled = false
+    this.filterInputs.forEach((input) => {
+      input.disabled = false
+    })
+    this.pickInput.disabled = false
+    this.presetSelect.disabled = false
     this.updateConcurrencyDisabled(false)
     this.root.setAttribute('aria-busy', 'false')
   }
 
   setBusy(isBusy: boolean) {
+    this.busy = isBusy
+    if (!isBusy) {
+      this.setPauseAvailable(false)
+    }
+    this.updateResumeButton()
+    this.updateFailuresSection()
     this.root.setAttribute('aria-busy', String(isBusy))
     this.startButton.disabled = isBusy
     this.cancelButton.disabled = !isBusy
     this.sequentialInput.disabled = isBusy
     this.throttleInput.disabled = isBusy
+    this.adaptiveInput.disabled = isBusy
+    this.retryAttemptsInput.disabled = isBusy
+    this.retryBaseDelayInput.disabled = isBusy
+    this.timeoutInput.disabled = isBusy
+    this.stallTimeoutInput.disabled = isBusy
+    this.dedupeInput.disabled = isBusy
+    this.updateDedupeAcrossRunsDisabled(isBusy)
+    this.embedMetadataInput.disabled = isBusy
+    this.outputFormatInput.disabled = isBusy
+    this.updateArchiveLimitsDisabled(isBusy)
+    this.onlyNewInput.disabled = isBusy
+    this.templateInput.disabled = isBusy
+    this.folderLayoutInput.disabled = isBusy
+    this.filterInputs.forEach((input) => {
+      input.disabled = isBusy
+    })
+    this.pickInput.disabled = isBusy
+    this.presetSelect.disabled = isBusy
     this.updateConcurrencyDisabled(isBusy)
     this.startButton.classList.toggle('lgd-opacity-60', isBusy)
     this.startButton.classList.toggle('lgd-pointer-events-none', isBusy)
@@ -143,6 +325,42 @@ export class DownloadPanel {
     this.downloadHandlers.forEach((handler) => handler(request))
   }
 
+  /**
+   * Shows the thumbnail picker and resolves with the chosen screenshots, or
+   * null when the user cancels.
+   */
+  pickScreens(screens: ScreenMeta[]): Promise<ScreenMeta[] | null> {
+    this.finishPick(null)
+    this.picker.setScreens(screens)
+    this.pickerSection.classList.remove('lgd-hidden')
+    this.setStatus(`Select the screenshots to download (${screens.length} available).`)
+
+    return new Promise((resolve) => {
+      this.resolvePick = resolve
+    })
+  }
+
+  setSyncHint(message: string) {
+    this.syncHint.textContent = message
+  }
+
+  requestResume() {
+    const [pendingJob] = this.pendingJobs
+    if (!pendingJob) {
+      return
+    }
+
+    const jobId = pendingJob.id
+    this.resetBeforeStart()
+    const request = this.getDownloadRequest()
+    this.resumeHandlers.forEach((handler) => handler(jobId, request))
+  }
+
+  /** Puts the panel in its running state to follow a job started elsewhere. */
+  resetForAttach() {
+    this.resetBeforeStart()
+  }
+
   setTotal(total: number) {
     this.totalScreens = total
     this.updateProgress(this.completedScreens)
@@ -156,6 +374,10 @@ export class DownloadPanel {
     this.progressLabel.textContent = `${completed} / ${total}`
   }
 
+  updateRate(sample: RateSnapshot) {
+    this.rateChart.push(sample)
+  }
+
   pushLog(message: string, level: 'info' | 'warn' = 'info') {
     const entry = document.createElement('div')
     entry.className = [
@@ -176,9 +398,38 @@ export class DownloadPanel {
     this.pushLog(message, 'warn')
   }
 
+  /** Shows the Pause/Resume toggle while a background job can be paused. */
+  setPauseAvailable(available: boolean) {
+    if (!available) {
+      this.paused = false
+      this.pauseButton.textContent = 'Pause'
+    }
+    this.pauseButton.classList.toggle('lgd-hidden', !available)
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused
+    this.pauseButton.textContent = paused ? 'Resume' : 'Pause'
+    if (paused) {
+      this.showPausedStatus()
+    } else {
+      this.setStatus(`Downloading screenshots (${this.completedScreens}/${this.totalScreens})`)
+    }
+  }
+
+  isPaused(): boolean {
+    return this.paused
+  }
+
+  showPausedStatus() {
+    this.setStatus(
+      `Paused (${this.completedScreens}/${this.totalScreens}). Downloads already in flight finish; fetched files are kept.`
+    )
+  }
+
   markDone(total: number, failed: number) {
     this.setBusy(false)
-    this.setStatus(`All done! ${total} file(s) saved.${failed ? ` ${failed} failed (images not found on lightshot servers).` : ''}`)
+    this.setStatus(`All done! ${total} file(s) saved.${failed ? ` ${failed} failed (see the list below).` : ''}`)
   }
 
   private bindEvents() {
@@ -186,10 +437,53 @@ export class DownloadPanel {
       this.requestDownload()
     })
 
+    this.pauseButton.addEventListener('click', () => {
+      this.pauseHandlers.forEach((handler) => handler(!this.paused))
+    })
+
     this.cancelButton.addEventListener('click', () => {
+      if (this.resolvePick) {
+        this.finishPick(null)
+        return
+      }
       this.cancelHandlers.forEach((handler) => handler())
     })
 
+    this.picker.onSelectionChange((selected) => {
+      this.pickerConfirmButton.disabled = selected === 0
+      this.pickerConfirmButton.classList.toggle('lgd-opacity-60', selected === 0)
+      this.pickerConfirmButton.textContent = `Download selected (${selected})`
+    })
+
+    this.pickerConfirmButton.addEventListener('click', () => {
+      const selection = this.picker.getSelected()
+      if (selection.length) {
+        this.finishPick(selection)
+      }
+    })
+
+    this.resumeButton.addEventListener('click', () => {
+      this.requestResume()
+    })
+
+    this.discardResumeButton.addEventListener('click', () => {
+      const [pendingJob] = this.pendingJobs
+      if (!pendingJob || !window.confirm(`Discard the interrupted download (${pendingJob.completed}/${pendingJob.total} fetched)?`)) {
+        return
+      }
+      this.discardHandlers.forEach((handler) => handler(pendingJob.id))
+    })
+
+    this.retryFailedButton.addEventListener('click', () => {
+      const screens = this.failures.map((failure) => failure.screen)
+      if (!screens.length) {
+        return
+      }
+      this.resetBeforeStart()
+      const request = this.getDownloadRequest()
+      this.retryFailedHandlers.forEach((handler) => handler(screens, request))
+    })
+
     const closeButton = this.root.querySelector('button[data-lgd-close]') ?? this.root.querySelector('header button')
     if (closeButton) {
       closeButton.addEventListener('click', () => this.hide())
@@ -207,6 +501,55 @@ export class DownloadPanel {
       this.normalizeConcurrencyInput()
     })
 
+    this.outputFormatInput.addEventListener('change', () => {
+      this.updateArchiveLimitsDisabled(false)
+    })
+
+    this.maxArchiveInput.addEventListener('change', () => {
+      this.maxArchiveInput.value = String(getLimitValue(this.maxArchiveInput))
+    })
+
+    this.dedupeInput.addEventListener('change', () => {
+      this.updateDedupeAcrossRunsDisabled(false)
+    })
+
+    this.maxFilesInput.addEventListener('change', () => {
+      this.maxFilesInput.value = String(getLimitValue(this.maxFilesInput))
+    })
+
+    this.templateInput.addEventListener('change', () => {
+      this.templateInput.value = this.getNamingValue().template
+    })
+
+    this.presetSelect.addEventListener('change', () => {
+      const preset = this.presets.find(({ name }) => name === this.presetSelect.value)
+      if (preset) {
+        this.applySettings(preset.settings)
+        this.scheduleSettingsSave()
+        this.pushLog(`Applied preset "${preset.name}".`)
+      }
+      this.updatePresetButtons()
+    })
+
+    this.root.querySelector('button.lgd-preset-save')?.addEventListener('click', () => {
+      this.saveCurrentAsPreset().catch((error) => {
+        this.pushLog(`Could not save the preset: ${error instanceof Error ? error.message : String(error)}`, 'warn')
+      })
+    })
+
+    this.presetDeleteButton.addEventListener('click', () => {
+      this.deleteSelectedPreset().catch((error) => {
+        this.pushLog(`Could not delete the preset: ${error instanceof Error ? error.message : String(error)}`, 'warn')
+      })
+    })
+
+    // Inputs normalize themselves on `change` first; persist the result afterwards.
+    this.root.addEventListener('change', (event) => {
+      if (event.target !== this.presetSelect) {
+        this.scheduleSettingsSave()
+      }
+    })
+
     this.creditsLink.addEventListener('click', (event) => {
       event.preventDefault()
       const url = chrome.runtime.getURL('credits/index.html')
@@ -214,8 +557,18 @@ export class DownloadPanel {
     })
   }
 
+  private finishPick(selection: ScreenMeta[] | null) {
+    const resolve = this.resolvePick
+    this.resolvePick = null
+    this.pickerSection.classList.add('lgd-hidden')
+    this.picker.setScreens([])
+    resolve?.(selection)
+  }
+
   private resetBeforeStart() {
+    this.setFailures([])
     this.logContainer.innerHTML = ''
+    this.rateChart.reset()
     this.completedScreens = 0
     this.progressFill.style.width = '0%'
     this.progressLabel.textContent = '0 / 0'
@@ -230,6 +583,124 @@ export class DownloadPanel {
     this.normalizeConcurrencyInput()
     this.normalizeThrottleInput()
     this.handleSequentialToggle()
+
+    readSettings()
+      .then((settings) => this.applySettings(settings))
+      .catch(() => {
+        // keep the defaults
+      })
+    this.refreshPresets().catch(() => {
+      // presets stay unavailable for this session
+    })
+  }
+
+  private applySettings(settings: Partial<DownloadSettings>) {
+    const setValue = (input: HTMLInputElement | HTMLSelectElement, value: number | string | undefined) => {
+      if (value !== undefined) {
+        input.value = String(value)
+      }
+    }
+
+    setValue(this.concurrencyInput, settings.concurrency)
+    setValue(this.throttleInput, settings.throttleMs)
+    setValue(this.retryAttemptsInput, settings.retryAttempts)
+    setValue(this.retryBaseDelayInput, settings.retryBaseDelayMs)
+    setValue(this.timeoutInput, settings.timeoutSeconds)
+    setValue(this.stallTimeoutInput, settings.stallTimeoutSeconds)
+    setValue(this.outputFormatInput, settings.outputFormat)
+    setValue(this.maxArchiveInput, settings.maxArchiveMb)
+    setValue(this.maxFilesInput, settings.maxFilesPerArchive)
+    setValue(this.templateInput, settings.filenameTemplate)
+    setValue(this.folderLayoutInput, settings.folderLayout)
+
+    if (settings.sequential !== undefined) {
+      this.sequentialInput.checked = settings.sequential
+    }
+    if (settings.adaptive !== undefined) {
+      this.adaptiveInput.checked = settings.adaptive
+    }
+    if (settings.onlyNew !== undefined) {
+      this.onlyNewInput.checked = settings.onlyNew
+    }
+    if (settings.dedupe !== undefined) {
+      this.dedupeInput.checked = settings.dedupe
+    }
+    if (settings.dedupeAcrossRuns !== undefined) {
+      this.dedupeAcrossRunsInput.checked = settings.dedupeAcrossRuns
+    }
+    if (settings.embedMetadata !== undefined) {
+      this.embedMetadataInput.checked = settings.embedMetadata
+    }
+    this.updateDedupeAcrossRunsDisabled(this.busy)
+    this.updateArchiveLimitsDisabled(this.busy)
+    if (settings.pick !== undefined) {
+      this.pickInput.checked = settings.pick
+    }
+    if (settings.filter) {
+      const filter = settings.filter as Record<string, unknown>
+      this.filterInputs.forEach((input) => {
+        const value = filter[input.dataset.lgdFilter as string]
+        input.value = value === undefined ? '' : String(value)
+      })
+    }
+
+    this.handleSequentialToggle()
+  }
+
+  private scheduleSettingsSave() {
+    clearTimeout(this.saveSettingsTimer)
+    this.saveSettingsTimer = setTimeout(() => {
+      writeSettings(this.getSettings()).catch(() => {
+        // storage unavailable; the values still apply to this session
+      })
+    }, SETTINGS_SAVE_DELAY_MS)
+  }
+
+  private async refreshPresets(selected = this.presetSelect.value) {
+    this.presets = await listPresets()
+
+    const custom = document.createElement('option')
+    custom.value = ''
+    custom.textContent = 'Custom'
+    const options = this.presets.map(({ name, builtIn }) => {
+      const option = document.createElement('option')
+      option.value = name
+      option.textContent = builtIn ? `${name} (built-in)` : name
+      return option
+    })
+    this.presetSelect.replaceChildren(custom, ...options)
+    this.presetSelect.value = this.presets.some(({ name }) => name === selected) ? selected : ''
+    this.updatePresetButtons()
+  }
+
+  private async saveCurrentAsPreset() {
+    const current = this.presets.find(({ name }) => name === this.presetSelect.value)
+    const input = window.prompt('Save the current settings as preset:', current && !current.builtIn ? current.name : '')
+    const name = input ? normalizePresetName(input) : ''
+    if (!name) {
+      return
+    }
+
+    await savePreset(name, pickPresetSettings(this.getSettings()))
+    await this.refreshPresets(name)
+    this.pushLog(`Saved preset "${name}".`)
+  }
+
+  private async deleteSelectedPreset() {
+    const preset = this.presets.find(({ name }) => name === this.presetSelect.value)
+    if (!preset || preset.builtIn) {
+      return
+    }
+
+    await deletePreset(preset.name)
+    await this.refreshPresets('')
+    this.pushLog(`Deleted preset "${preset.name}".`)
+  }
+
+  private updatePresetButtons() {
+    const preset = this.presets.find(({ name }) => name === this.presetSelect.value)
+    this.presetDeleteButton.disabled = !preset || Boolean(preset.builtIn)
+    this.presetDeleteButton.classList.toggle('lgd-opacity-50', this.presetDeleteButton.disabled)
   }
 
   private handleSequentialToggle() {
@@ -241,11 +712,63 @@ export class DownloadPanel {
     this.updateConcurrencyDisabled(false)
   }
 
-  private getDownloadRequest(): DownloadRequest {
+  private getSettings(): DownloadSettings {
     const sequential = this.sequentialInput.checked
-    const concurrency = sequential ? 1 : this.getConcurrencyValue()
+    const concurrency = this.getConcurrencyValue()
     const throttleMs = this.getThrottleValue()
-    return { concurrency, sequential, throttleMs }
+    const naming = this.getNamingValue()
+    return {
+      concurrency,
+      sequential,
+      throttleMs,
+      adaptive: this.adaptiveInput.checked,
+      retryAttempts: getBoundedValue(this.retryAttemptsInput, { min: 1, max: MAX_RETRY_ATTEMPTS, fallback: DEFAULT_RETRY_ATTEMPTS }),
+      retryBaseDelayMs: getBoundedValue(this.retryBaseDelayInput, {
+        min: 0,
+        max: MAX_RETRY_BASE_DELAY_MS,
+        fallback: DEFAULT_RETRY_BASE_DELAY_MS,
+      }),
+      timeoutSeconds: getBoundedValue(this.timeoutInput, { min: 0, max: MAX_TIMEOUT_SECONDS, fallback: DEFAULT_TIMEOUT_SECONDS }),
+      stallTimeoutSeconds: getBoundedValue(this.stallTimeoutInput, {
+        min: 0,
+        max: MAX_TIMEOUT_SECONDS,
+        fallback: DEFAULT_STALL_TIMEOUT_SECONDS,
+      }),
+      maxArchiveMb: getLimitValue(this.maxArchiveInput),
+      maxFilesPerArchive: getLimitValue(this.maxFilesInput),
+      outputFormat: this.getOutputFormatValue(),
+      onlyNew: this.onlyNewInput.checked,
+      dedupe: this.dedupeInput.checked,
+      dedupeAcrossRuns: this.dedupeInput.checked && this.dedupeAcrossRunsInput.checked,
+      embedMetadata: this.embedMetadataInput.checked,
+      filenameTemplate: naming.template,
+      folderLayout: naming.folderLayout,
+      filter: this.getFilterValue(),
+      pick: this.pickInput.checked,
+    }
+  }
+
+  private getDownloadRequest(): DownloadRequest {
+    const settings = this.getSettings()
+    return { ...settings, concurrency: settings.sequential ? 1 : settings.concurrency }
+  }
+
+  private getFilterValue(): ScreenFilter {
+    const values = Object.fromEntries(
+      this.filterInputs
+        .filter((input) => input.value.trim() !== '')
+        .map((input) => [input.dataset.lgdFilter as string, input.value.trim()])
+    )
+    return normalizeScreenFilter(values)
+  }
+
+  private getOutputFormatValue(): OutputFormat {
+    const value = this.outputFormatInput.value as OutputFormat
+    return OUTPUT_FORMATS.includes(value) ? value : 'zip'
+  }
+
+  private getNamingValue(): NamingOptions {
+    return normalizeNaming({ template: this.templateInput.value, folderLayout: this.folderLayoutInput.value })
   }
 
   private getConcurrencyValue(): number {
@@ -272,6 +795,34 @@ export class DownloadPanel {
     this.concurrencyInput.value = String(this.getConcurrencyValue())
   }
 
+  private updateFailuresSection() {
+    this.failuresSection.classList.toggle('lgd-hidden', !this.failures.length || this.busy)
+  }
+
+  private updateResumeButton() {
+    const [pendingJob, ...older] = this.pendingJobs
+    this.resumeOffer.classList.toggle('lgd-hidden', !pendingJob || this.busy)
+    if (pendingJob) {
+      const more = older.length ? `, ${older.length} more saved` : ''
+      this.resumeButton.textContent = `Resume previous download (${pendingJob.completed}/${pendingJob.total}${more})`
+    }
+  }
+
+  private updateDedupeAcrossRunsDisabled(isBusy: boolean) {
+    this.dedupeAcrossRunsInput.disabled = isBusy || !this.dedupeInput.checked
+    this.dedupeAcrossRunsInput.closest('label')?.classList.toggle('lgd-opacity-50', !this.dedupeInput.checked)
+  }
+
+  /** Volume limits only apply to ZIP archives. */
+  private updateArchiveLimitsDisabled(isBusy: boolean) {
+    const splittable = ['zip', 'zip-store'].includes(this.getOutputFormatValue())
+    const limitInputs = [this.maxArchiveInput, this.maxFilesInput]
+    limitInputs.forEach((input) => {
+      input.disabled = isBusy || !splittable
+      input.closest('label')?.classList.toggle('lgd-opacity-50', !splittable)
+    })
+  }
+
   private updateConcurrencyDisabled(isBusy: boolean) {
     this.concurrencyInput.disabled = isBusy || this.sequentialInput.checked
     this.concurrencyInput.classList.toggle('lgd-opacity-50', this.concurrencyInput.disabled)
@@ -311,8 +862,26 @@ export class DownloadPanel {
             <span data-lgd-progress-label>0 / 0</span>
           </div>
         </div>
+        <div data-lgd-picker class="lgd-hidden lgd-flex lgd-flex-col lgd-gap-3">
+          <button type="button" class="lgd-picker-confirm lgd-inline-flex lgd-items-center lgd-justify-center lgd-rounded-xl lgd-bg-accent lgd-px-4 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-white lgd-shadow-md lgd-transition lgd-duration-150 hover:lgd-bg-accentHover" disabled>Download selected (0)</button>
+        </div>
+        <div data-lgd-failures class="lgd-hidden lgd-flex lgd-flex-col lgd-gap-2 lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-p-4 lgd-text-xs lgd-text-slate-300">
+          <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Failed screenshots</span>
+          <ul data-lgd-failures-list class="lgd-max-h-32 lgd-space-y-1 lgd-overflow-y-auto lgd-text-danger lgd-scrollbar"></ul>
+          <button type="button" class="lgd-retry-failed lgd-inline-flex lgd-items-center lgd-justify-center lgd-rounded-xl lgd-border lgd-border-accent lgd-px-4 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-accent lgd-transition lgd-duration-150 hover:lgd-text-accentHover">Retry failed</button>
+        </div>
         <div data-lgd-log class="lgd-max-h-48 lgd-space-y-1.5 lgd-overflow-y-auto lgd-rounded-2xl lgd-bg-surfaceAlt lgd-p-4 lgd-text-xs lgd-leading-5 lgd-scrollbar"></div>
         <div class="lgd-grid lgd-grid-cols-1 lgd-gap-4">
+          <div class="lgd-flex lgd-items-end lgd-gap-2">
+            <label class="lgd-flex lgd-flex-1 lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Preset</span>
+              <select class="lgd-preset lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none">
+                <option value="">Custom</option>
+              </select>
+            </label>
+            <button type="button" class="lgd-preset-save lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-slate-300 lgd-transition lgd-duration-150 hover:lgd-text-slate-100">Save…</button>
+            <button type="button" class="lgd-preset-delete lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-slate-300 lgd-transition lgd-duration-150 hover:lgd-text-slate-100" disabled>Delete</button>
+          </div>
           <label class="lgd-flex lgd-items-center lgd-justify-between lgd-gap-3 lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-3 lgd-text-xs lgd-text-slate-300">
             <span class="lgd-flex lgd-flex-col lgd-gap-0.5">
               <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Sequential mode</span>
@@ -320,6 +889,105 @@ export class DownloadPanel {
             </span>
             <input type="checkbox" class="lgd-sequential lgd-h-5 lgd-w-5" checked />
           </label>
+          <label class="lgd-flex lgd-items-center lgd-justify-between lgd-gap-3 lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-3 lgd-text-xs lgd-text-slate-300">
+            <span class="lgd-flex lgd-flex-col lgd-gap-0.5">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Adaptive rate</span>
+              <span>Speed up while Lightshot keeps up, back off when it struggles</span>
+            </span>
+            <input type="checkbox" class="lgd-adaptive lgd-h-5 lgd-w-5" />
+          </label>
+          <div class="lgd-grid lgd-grid-cols-[2fr_1fr] lgd-gap-4">
+            <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300" title="Tokens: {id36}, {index}, {date:YYYY-MM-DD}, {description}, {ext}">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">File name</span>
+              <input type="text" value="${DEFAULT_FILENAME_TEMPLATE}" spellcheck="false" class="lgd-template lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+            </label>
+            <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Folders</span>
+              <select class="lgd-folder-layout lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none">
+                <option value="flat">Flat</option>
+                <option value="year">By year</option>
+                <option value="year-month">Year / month</option>
+              </select>
+            </label>
+          </div>
+          <details class="lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-3 lgd-text-xs lgd-text-slate-300">
+            <summary class="lgd-cursor-pointer lgd-text-sm lgd-font-semibold lgd-text-slate-100">Filters</summary>
+            <div class="lgd-mt-3 lgd-grid lgd-grid-cols-2 lgd-gap-3">
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+                <span class="lgd-font-semibold lgd-text-slate-100">From date</span>
+                <input type="date" data-lgd-filter="fromDate" class="lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+                <span class="lgd-font-semibold lgd-text-slate-100">To date</span>
+                <input type="date" data-lgd-filter="toDate" class="lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+                <span class="lgd-font-semibold lgd-text-slate-100">From id</span>
+                <input type="text" data-lgd-filter="fromId36" spellcheck="false" placeholder="id36" class="lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+                <span class="lgd-font-semibold lgd-text-slate-100">To id</span>
+                <input type="text" data-lgd-filter="toId36" spellcheck="false" placeholder="id36" class="lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+                <span class="lgd-font-semibold lgd-text-slate-100">Most recent</span>
+                <input type="number" data-lgd-filter="mostRecent" min="0" placeholder="All" class="lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+                <span class="lgd-font-semibold lgd-text-slate-100">Max count</span>
+                <input type="number" data-lgd-filter="maxCount" min="0" placeholder="All" class="lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+            </div>
+          </details>
+          <details class="lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-3 lgd-text-xs lgd-text-slate-300">
+            <summary class="lgd-cursor-pointer lgd-text-sm lgd-font-semibold lgd-text-slate-100">Advanced</summary>
+            <div class="lgd-mt-3 lgd-grid lgd-grid-cols-2 lgd-gap-3">
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300" title="Attempts per screenshot. 404, 410 and missing captures are never retried.">
+                <span class="lgd-font-semibold lgd-text-slate-100">Retry attempts</span>
+                <input type="number" min="1" max="${MAX_RETRY_ATTEMPTS}" value="${DEFAULT_RETRY_ATTEMPTS}" class="lgd-retry-attempts lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300" title="Backoff doubles after each attempt, with random jitter. Retry-After from the server takes precedence.">
+                <span class="lgd-font-semibold lgd-text-slate-100">Retry base delay (ms)</span>
+                <input type="number" min="0" max="${MAX_RETRY_BASE_DELAY_MS}" value="${DEFAULT_RETRY_BASE_DELAY_MS}" class="lgd-retry-delay lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300" title="Maximum time for one attempt. 0 = no limit.">
+                <span class="lgd-font-semibold lgd-text-slate-100">Request timeout (s)</span>
+                <input type="number" min="0" max="${MAX_TIMEOUT_SECONDS}" value="${DEFAULT_TIMEOUT_SECONDS}" class="lgd-timeout lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+              <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300" title="Abort an attempt when no bytes arrive for this long. 0 = disabled.">
+                <span class="lgd-font-semibold lgd-text-slate-100">Stall timeout (s)</span>
+                <input type="number" min="0" max="${MAX_TIMEOUT_SECONDS}" value="${DEFAULT_STALL_TIMEOUT_SECONDS}" class="lgd-stall-timeout lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+              </label>
+            </div>
+            <div class="lgd-mt-3 lgd-flex lgd-flex-col lgd-gap-2">
+              <label class="lgd-flex lgd-items-center lgd-justify-between lgd-gap-3" title="Identical images (same SHA-256) are stored once; the manifest maps every duplicate id to the kept file.">
+                <span class="lgd-font-semibold lgd-text-slate-100">Skip duplicate images</span>
+                <input type="checkbox" class="lgd-dedupe lgd-h-4 lgd-w-4" />
+              </label>
+              <label class="lgd-flex lgd-items-center lgd-justify-between lgd-gap-3" title="Remember hashes per account so content exported by earlier runs is skipped too.">
+                <span class="lgd-font-semibold lgd-text-slate-100">Remember across runs</span>
+                <input type="checkbox" class="lgd-dedupe-across-runs lgd-h-4 lgd-w-4" />
+              </label>
+              <label class="lgd-flex lgd-items-center lgd-justify-between lgd-gap-3" title="Write the capture date, id, share link and description into PNG and JPEG files so photo managers pick them up.">
+                <span class="lgd-font-semibold lgd-text-slate-100">Embed metadata in images</span>
+                <input type="checkbox" class="lgd-embed-metadata lgd-h-4 lgd-w-4" />
+              </label>
+            </div>
+          </details>
+          <label class="lgd-flex lgd-items-center lgd-justify-between lgd-gap-3 lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-3 lgd-text-xs lgd-text-slate-300">
+            <span class="lgd-flex lgd-flex-col lgd-gap-0.5">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Pick screenshots</span>
+              <span>Choose from a thumbnail grid before downloading</span>
+            </span>
+            <input type="checkbox" class="lgd-pick lgd-h-5 lgd-w-5" />
+          </label>
+          <label class="lgd-flex lgd-items-center lgd-justify-between lgd-gap-3 lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-3 lgd-text-xs lgd-text-slate-300">
+            <span class="lgd-flex lgd-flex-col lgd-gap-0.5">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Only new screenshots</span>
+              <span data-lgd-sync-hint>Skip everything already exported</span>
+            </span>
+            <input type="checkbox" class="lgd-only-new lgd-h-5 lgd-w-5" />
+          </label>
           <div class="lgd-grid lgd-grid-cols-2 lgd-gap-4">
             <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
               <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Throttle (ms)</span>
@@ -330,10 +998,34 @@ export class DownloadPanel {
               <input type="number" min="1" max="10" value="${DEFAULT_CONCURRENCY}" class="lgd-concurrency lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
             </label>
           </div>
+          <div class="lgd-grid lgd-grid-cols-3 lgd-gap-4">
+            <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Output</span>
+              <select class="lgd-output-format lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none">
+                <option value="zip">ZIP archive</option>
+                <option value="zip-store">ZIP, no compression</option>
+                <option value="tar">TAR archive</option>
+                <option value="files">Individual files</option>
+              </select>
+            </label>
+            <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300" title="Split the export into numbered volumes. 0 = no limit.">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Max archive (MB)</span>
+              <input type="number" min="0" value="0" class="lgd-max-archive lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+            </label>
+            <label class="lgd-flex lgd-flex-col lgd-gap-1 lgd-text-xs lgd-text-slate-300" title="Split the export into numbered volumes. 0 = no limit.">
+              <span class="lgd-text-sm lgd-font-semibold lgd-text-slate-100">Max files / archive</span>
+              <input type="number" min="0" value="0" class="lgd-max-files lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+            </label>
+          </div>
+        </div>
+        <div class="lgd-resume-offer lgd-hidden lgd-flex lgd-gap-2">
+          <button type="button" class="lgd-resume lgd-inline-flex lgd-flex-1 lgd-items-center lgd-justify-center lgd-rounded-xl lgd-border lgd-border-accent lgd-bg-surfaceAlt lgd-px-4 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-accent lgd-transition lgd-duration-150 hover:lgd-text-accentHover">Resume previous download</button>
+          <button type="button" class="lgd-discard-resume lgd-inline-flex lgd-items-center lgd-justify-center lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-slate-300 lgd-transition lgd-duration-150 hover:lgd-text-slate-100" title="Delete the files this interrupted download already fetched.">Discard</button>
         </div>
         <div class="lgd-flex lgd-items-center lgd-justify-between lgd-gap-3">
           <div class="lgd-flex lgd-gap-2">
             <button type="button" class="lgd-cancel lgd-inline-flex lgd-items-center lgd-justify-center lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-slate-300 lgd-transition lgd-duration-150 hover:lgd-text-slate-100" disabled>Cancel</button>
+            <button type="button" class="lgd-pause lgd-hidden lgd-inline-flex lgd-items-center lgd-justify-center lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-slate-300 lgd-transition lgd-duration-150 hover:lgd-text-slate-100">Pause</button>
             <button type="button" class="lgd-start lgd-inline-flex lgd-items-center lgd-justify-center lgd-rounded-xl lgd-bg-accent lgd-px-4 lgd-py-2 lgd-text-sm lgd-font-semibold lgd-text-white lgd-shadow-md lgd-transition lgd-duration-150 hover:lgd-bg-accentHover focus-visible:lgd-ring-2 focus-visible:lgd-ring-offset-2 focus-visible:lgd-ring-accent">Start</button>
           </div>
           <span class="lgd-text-xs lgd-font-medium lgd-text-accent hover:lgd-text-accentHover lgd-transition lgd-duration-150"><a href="#" data-lgd-credits>Credits:</a> Created by <a href="https://p-42.fr/sorokdva" target="_blank">Sorokdva</a>
@@ -344,3 +1036,22 @@ export class DownloadPanel {
     return container
   }
 }
+
+const getLimitValue = (input: HTMLInputElement): number => {
+  const value = Number(input.value)
+  if (!Number.isFinite(value) || value <= 0) {
+    return 0
+  }
+  return Math.floor(value)
+}
+
+const getBoundedValue = (
+  input: HTMLInputElement,
+  { min, max, fallback }: { min: number; max: number; fallback: number }
+): number => {
+  const value = Number(input.value)
+  if (input.value.trim() === '' || !Number.isFinite(value)) {
+    return fallback
+  }
+  return Math.min(max, Math.max(min, Math.floor(value)))
+}
@@ -0,0 +1,72 @@
+import { RateSnapshot } from '../../shared/protocol'
+
+const MAX_SAMPLES = 60
+const CHART_WIDTH = 300
+const CHART_HEIGHT = 48
+
+/**
+ * Sparkline of the adaptive download rate (requests per minute) with the
+ * current stream count, delay and latency underneath.
+ */
+export class RateChart {
+  readonly element: HTMLDivElement
+  private readonly line: SVGPolylineElement
+  private readonly label: HTMLSpanElement
+  private samples: RateSnapshot[] = []
+
+  constructor() {
+    this.element = this.createElement()
+    this.line = this.element.querySelector('polyline') as SVGPolylineElement
+    this.label = this.element.querySelector('[data-lgd-rate-label]') as HTMLSpanElement
+  }
+
+  push(sample: RateSnapshot) {
+    this.samples.push(sample)
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift()
+    }
+    this.element.classList.remove('lgd-hidden')
+    this.render()
+  }
+
+  reset() {
+    this.samples = []
+    this.line.setAttribute('points', '')
+    this.label.textContent = ''
+    this.element.classList.add('lgd-hidden')
+  }
+
+  private render() {
+    const peak = Math.max(1, ...this.samples.map((sample) => sample.requestsPerMinute))
+    const step = CHART_WIDTH / (MAX_SAMPLES - 1)
+    const offset = MAX_SAMPLES - this.samples.length
+    const points = this.samples.map((sample, index) => {
+      const x = (offset + index) * step
+      const y = CHART_HEIGHT - (sample.requestsPerMinute / peak) * (CHART_HEIGHT - 4) - 2
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    this.line.setAttribute('points', points.join(' '))
+
+    const latest = this.samples[this.samples.length - 1]
+    const paused = latest.pausedUntil ? Math.ceil((latest.pausedUntil - Date.now()) / 1000) : 0
+    this.label.textContent = [
+      `${latest.requestsPerMinute} req/min`,
+      `${latest.concurrency} stream(s)`,
+      `${latest.delayMs} ms delay`,
+      latest.latencyMs ? `${latest.latencyMs} ms latency` : null,
+      paused > 0 ? `paused ${paused}s (server asked to wait)` : null,
+    ].filter(Boolean).join(' • ')
+  }
+
+  private createElement(): HTMLDivElement {
+    const container = document.createElement('div')
+    container.className = 'lgd-hidden lgd-flex lgd-flex-col lgd-gap-1 lgd-rounded-2xl lgd-bg-surfaceAlt lgd-px-4 lgd-py-3'
+    container.innerHTML = `
+      <svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" preserveAspectRatio="none" class="lgd-h-12 lgd-w-full" aria-hidden="true">
+        <polyline fill="none" stroke="currentColor" stroke-width="2" stroke-linejoin="round" class="lgd-text-accent" points="" />
+      </svg>
+      <span data-lgd-rate-label class="lgd-text-[11px] lgd-text-slate-300"></span>
+    `
+    return container
+  }
+}
@@ -0,0 +1,212 @@
+import { ScreenMeta } from '../../domain/lightshotClient'
+
+type SelectionHandler = (selected: number, total: number) => void
+
+const COLUMNS = 3
+const ROW_HEIGHT = 112
+const VIEWPORT_HEIGHT = 320
+const OVERSCAN_ROWS = 2
+
+/**
+ * Virtualized thumbnail grid used to hand-pick screenshots. Only the rows in
+ * (or near) the viewport are rendered, so galleries with thousands of entries
+ * stay responsive.
+ */
+export class ScreenPicker {
+  readonly element: HTMLDivElement
+  private readonly searchInput: HTMLInputElement
+  private readonly viewport: HTMLDivElement
+  private readonly canvas: HTMLDivElement
+  private readonly countLabel: HTMLSpanElement
+
+  private screens: ScreenMeta[] = []
+  private visible: ScreenMeta[] = []
+  private readonly selected = new Set<string>()
+  private anchorIndex: number | null = null
+  private readonly selectionHandlers = new Set<SelectionHandler>()
+
+  constructor() {
+    this.element = this.createElement()
+    this.searchInput = this.element.querySelector('input[data-lgd-picker-search]') as HTMLInputElement
+    this.viewport = this.element.querySelector('[data-lgd-picker-viewport]') as HTMLDivElement
+    this.canvas = this.element.querySelector('[data-lgd-picker-canvas]') as HTMLDivElement
+    this.countLabel = this.element.querySelector('[data-lgd-picker-count]') as HTMLSpanElement
+    this.bindEvents()
+  }
+
+  setScreens(screens: ScreenMeta[]) {
+    this.screens = screens
+    this.selected.clear()
+    this.anchorIndex = null
+    this.searchInput.value = ''
+    this.applySearch()
+  }
+
+  getSelected(): ScreenMeta[] {
+    return this.screens.filter((screen) => this.selected.has(screen.id36))
+  }
+
+  onSelectionChange(handler: SelectionHandler) {
+    this.selectionHandlers.add(handler)
+  }
+
+  private bindEvents() {
+    this.searchInput.addEventListener('input', () => {
+      this.applySearch()
+    })
+
+    this.viewport.addEventListener('scroll', () => {
+      this.render()
+    })
+
+    this.element.querySelector('button[data-lgd-picker-all]')?.addEventListener('click', () => {
+      this.visible.forEach((screen) => this.selected.add(screen.id36))
+      this.render()
+      this.notify()
+    })
+
+    this.element.querySelector('button[data-lgd-picker-none]')?.addEventListener('click', () => {
+      this.visible.forEach((screen) => this.selected.delete(screen.id36))
+      this.render()
+      this.notify()
+    })
+
+    this.canvas.addEventListener('click', (event) => {
+      const cell = (event.target as HTMLElement).closest<HTMLElement>('[data-lgd-picker-index]')
+      if (!cell) {
+        return
+      }
+
+      event.preventDefault()
+      this.toggle(Number(cell.dataset.lgdPickerIndex), event.shiftKey)
+    })
+  }
+
+  private toggle(index: number, extendRange: boolean) {
+    const screen = this.visible[index]
+    if (!screen) {
+      return
+    }
+
+    const shouldSelect = !this.selected.has(screen.id36)
+
+    if (extendRange && this.anchorIndex !== null) {
+      const [start, end] = [Math.min(this.anchorIndex, index), Math.max(this.anchorIndex, index)]
+      for (let i = start; i <= end; i += 1) {
+        const id = this.visible[i].id36
+        if (shouldSelect) {
+          this.selected.add(id)
+        } else {
+          this.selected.delete(id)
+        }
+      }
+    } else if (shouldSelect) {
+      this.selected.add(screen.id36)
+    } else {
+      this.selected.delete(screen.id36)
+    }
+
+    this.anchorIndex = index
+    this.render()
+    this.notify()
+  }
+
+  private applySearch() {
+    const query = this.searchInput.value.trim().toLowerCase()
+    this.visible = query
+      ? this.screens.filter((screen) =>
+        screen.id36.toLowerCase().includes(query) || (screen.description ?? '').toLowerCase().includes(query)
+      )
+      : this.screens
+    this.anchorIndex = null
+    this.canvas.style.height = `${Math.ceil(this.visible.length / COLUMNS) * ROW_HEIGHT}px`
+    this.viewport.scrollTop = 0
+    this.render()
+    this.notify()
+  }
+
+  private render() {
+    const firstRow = Math.max(0, Math.floor(this.viewport.scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS)
+    const lastRow = Math.ceil((this.viewport.scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS
+    const start = firstRow * COLUMNS
+    const end = Math.min(this.visible.length, lastRow * COLUMNS)
+
+    const fragment = document.createDocumentFragment()
+    for (let index = start; index < end; index += 1) {
+      fragment.appendChild(this.createCell(this.visible[index], index))
+    }
+    this.canvas.replaceChildren(fragment)
+  }
+
+  private createCell(screen: ScreenMeta, index: number): HTMLElement {
+    const isSelected = this.selected.has(screen.id36)
+    const row = Math.floor(index / COLUMNS)
+    const column = index % COLUMNS
+
+    const cell = document.createElement('button')
+    cell.type = 'button'
+    cell.dataset.lgdPickerIndex = String(index)
+    cell.title = screen.description ? `${screen.id36} — ${screen.description}` : screen.id36
+    cell.setAttribute('aria-pressed', String(isSelected))
+    cell.style.position = 'absolute'
+    cell.style.top = `${row * ROW_HEIGHT}px`
+    cell.style.left = `calc(${(100 / COLUMNS) * column}% + 2px)`
+    cell.style.width = `calc(${100 / COLUMNS}% - 4px)`
+    cell.style.height = `${ROW_HEIGHT - 4}px`
+    cell.className = [
+      'lgd-flex lgd-flex-col lgd-overflow-hidden lgd-rounded-xl lgd-border lgd-bg-surface lgd-p-0 lgd-text-left',
+      isSelected ? 'lgd-border-accent' : 'lgd-border-outline',
+    ].join(' ')
+
+    const thumb = document.createElement('img')
+    thumb.loading = 'lazy'
+    thumb.alt = ''
+    thumb.src = screen.thumb ?? screen.url
+    thumb.className = 'lgd-h-[80px] lgd-w-full lgd-object-cover'
+
+    const label = document.createElement('span')
+    label.className = 'lgd-flex lgd-items-center lgd-gap-1 lgd-px-2 lgd-py-1 lgd-text-[11px] lgd-text-slate-200'
+
+    const checkbox = document.createElement('input')
+    checkbox.type = 'checkbox'
+    checkbox.checked = isSelected
+    checkbox.tabIndex = -1
+    checkbox.className = 'lgd-pointer-events-none lgd-h-3 lgd-w-3'
+
+    const id = document.createElement('span')
+    id.className = 'lgd-truncate'
+    id.textContent = screen.id36
+
+    label.append(checkbox, id)
+    cell.append(thumb, label)
+    return cell
+  }
+
+  private notify() {
+    const selectedVisible = this.visible.filter((screen) => this.selected.has(screen.id36)).length
+    this.countLabel.textContent = this.visible.length === this.screens.length
+      ? `${this.selected.size} / ${this.screens.length} selected`
+      : `${this.selected.size} selected (${selectedVisible} of ${this.visible.length} matches)`
+    this.selectionHandlers.forEach((handler) => handler(this.selected.size, this.screens.length))
+  }
+
+  private createElement(): HTMLDivElement {
+    const container = document.createElement('div')
+    container.className = 'lgd-flex lgd-flex-col lgd-gap-2'
+    container.innerHTML = `
+      <input type="search" data-lgd-picker-search placeholder="Search descriptions or ids" class="lgd-rounded-xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-3 lgd-py-2 lgd-text-sm lgd-text-slate-100 focus:lgd-border-accent focus:lgd-outline-none" />
+      <div class="lgd-flex lgd-items-center lgd-justify-between lgd-text-xs lgd-text-slate-300">
+        <span data-lgd-picker-count>0 / 0 selected</span>
+        <span class="lgd-flex lgd-gap-2">
+          <button type="button" data-lgd-picker-all class="lgd-text-accent hover:lgd-text-accentHover">Select all</button>
+          <button type="button" data-lgd-picker-none class="lgd-text-accent hover:lgd-text-accentHover">None</button>
+        </span>
+      </div>
+      <div data-lgd-picker-viewport class="lgd-relative lgd-overflow-y-auto lgd-rounded-2xl lgd-bg-surfaceAlt lgd-scrollbar" style="height: ${VIEWPORT_HEIGHT}px">
+        <div data-lgd-picker-canvas class="lgd-relative lgd-w-full"></div>
+      </div>
+      <span class="lgd-text-[11px] lgd-text-slate-400">Shift-click to select a range.</span>
+    `
+    return container
+  }
+}
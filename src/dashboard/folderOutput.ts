@@ -0,0 +1,97 @@
+import { HANDLES_STORE, openDatabase, requestToPromise, takeExport, transactionDone } from '../shared/database'
+import { sha256Hex } from '../shared/hash'
+import { FolderWriteResult } from '../shared/protocol'
+
+// File System Access additions missing from lib.dom
+declare global {
+  interface Window {
+    showDirectoryPicker(options?: { id?: string; mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>
+  }
+
+  interface FileSystemHandle {
+    queryPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>
+    requestPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>
+  }
+}
+
+const FOLDER_HANDLE_KEY = 'exportFolder'
+
+/** The folder picked last time, kept in IndexedDB so it survives reloads. */
+export const readExportFolder = async (): Promise<FileSystemDirectoryHandle | null> => {
+  const db = await openDatabase()
+  const handle = await requestToPromise<FileSystemDirectoryHandle | undefined>(
+    db.transaction(HANDLES_STORE, 'readonly').objectStore(HANDLES_STORE).get(FOLDER_HANDLE_KEY)
+  )
+  return handle ?? null
+}
+
+export const pickExportFolder = async (): Promise<FileSystemDirectoryHandle> => {
+  const handle = await window.showDirectoryPicker({ id: 'lgd-export', mode: 'readwrite' })
+  const db = await openDatabase()
+  const transaction = db.transaction(HANDLES_STORE, 'readwrite')
+  transaction.objectStore(HANDLES_STORE).put(handle, FOLDER_HANDLE_KEY)
+  await transactionDone(transaction)
+  return handle
+}
+
+/** Asks for write access if needed; must run from a user gesture. */
+export const ensureWritable = async (handle: FileSystemDirectoryHandle): Promise<boolean> => {
+  if (await handle.queryPermission({ mode: 'readwrite' }) === 'granted') {
+    return true
+  }
+  return (await handle.requestPermission({ mode: 'readwrite' })) === 'granted'
+}
+
+/**
+ * Writes a file the background worker left in the exports store. Files that
+ * already exist with the same size and SHA-256 are left untouched.
+ */
+export const writeExportFile = async (
+  root: FileSystemDirectoryHandle,
+  { requestId, path, size, sha256 }: { requestId: string; path: string; size: number; sha256: string }
+): Promise<FolderWriteResult> => {
+  const data = await takeExport(requestId)
+  if (!data) {
+    throw new Error(`No data for ${path}.`)
+  }
+
+  const segments = path.split('/').filter(Boolean)
+  const filename = segments.pop()
+  if (!filename) {
+    throw new Error(`Invalid path ${path}.`)
+  }
+
+  let directory = root
+  for (const segment of segments) {
+    directory = await directory.getDirectoryHandle(segment, { create: true })
+  }
+
+  const existing = await getExistingFile(directory, filename)
+  if (existing && existing.size === size && await sha256Hex(await existing.arrayBuffer()) === sha256) {
+    return 'skipped'
+  }
+
+  const fileHandle = await directory.getFileHandle(filename, { create: true })
+  const writable = await fileHandle.createWritable()
+  try {
+    await writable.write(data)
+    await writable.close()
+  } catch (error) {
+    await writable.abort().catch(() => {
+      // already closed
+    })
+    throw error
+  }
+  return 'written'
+}
+
+const getExistingFile = async (directory: FileSystemDirectoryHandle, filename: string): Promise<File | null> => {
+  try {
+    return await (await directory.getFileHandle(filename)).getFile()
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') {
+      return null
+    }
+    throw error
+  }
+}
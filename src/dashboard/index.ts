@@ -0,0 +1,449 @@
+import { formatBytes } from '../shared/format'
+import {
+  buildJobReport,
+  clearJobHistory,
+  JobHistoryEntry,
+  JobOutcome,
+  JobOutputFile,
+  jobReportFilename,
+  onJobHistoryChanged,
+  readJobHistory,
+} from '../shared/jobHistory'
+import {
+  ActiveJobSummary,
+  connectToBackground,
+  DASHBOARD_PORT_NAME,
+  DashboardMessage,
+  DashboardRequest,
+  JobState,
+} from '../shared/protocol'
+import {
+  DEFAULT_SETTINGS,
+  DownloadPreset,
+  DownloadSettings,
+  listPresets,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  readSettings,
+} from '../shared/settings'
+import { ensureWritable, pickExportFolder, readExportFolder, writeExportFile } from './folderOutput'
+
+const RECONNECT_DELAY_MS = 1000
+const MAX_LOG_ENTRIES = 200
+
+const STATE_LABELS: Record<JobState, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  paused: 'Paused',
+}
+
+const OUTCOME_LABELS: Record<JobOutcome, string> = {
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  interrupted: 'Interrupted',
+}
+
+const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  zip: 'ZIP archive',
+  'zip-store': 'uncompressed ZIP archive',
+  tar: 'TAR archive',
+  files: 'individual files',
+}
+
+const presetSelect = document.querySelector('select[data-lgd-preset]') as HTMLSelectElement
+const onlyNewInput = document.querySelector('input[data-lgd-only-new]') as HTMLInputElement
+const startButton = document.querySelector('button[data-lgd-start]') as HTMLButtonElement
+const settingsSummary = document.querySelector('[data-lgd-settings-summary]') as HTMLParagraphElement
+const activeContainer = document.querySelector('[data-lgd-active]') as HTMLDivElement
+const logContainer = document.querySelector('[data-lgd-log]') as HTMLDivElement
+const historyList = document.querySelector('[data-lgd-history]') as HTMLUListElement
+const clearHistoryButton = document.querySelector('button[data-lgd-clear-history]') as HTMLButtonElement
+const outputSelect = document.querySelector('select[data-lgd-output]') as HTMLSelectElement
+const pickFolderButton = document.querySelector('button[data-lgd-pick-folder]') as HTMLButtonElement
+const folderNameLabel = document.querySelector('[data-lgd-folder-name]') as HTMLSpanElement
+
+let port: chrome.runtime.Port | null = null
+let savedSettings: DownloadSettings = DEFAULT_SETTINGS
+let presets: DownloadPreset[] = []
+let activeJobs: ActiveJobSummary[] = []
+let exportFolder: FileSystemDirectoryHandle | null = null
+
+const connect = () => {
+  port = connectToBackground(DASHBOARD_PORT_NAME)
+  port.onMessage.addListener(handleMessage)
+  port.onDisconnect.addListener(() => {
+    // the service worker was stopped; reconnect so the job list stays live
+    port = null
+    setTimeout(connect, RECONNECT_DELAY_MS)
+  })
+}
+
+const send = (request: DashboardRequest) => {
+  port?.postMessage(request)
+}
+
+const handleMessage = (message: DashboardMessage) => {
+  switch (message.type) {
+    case 'jobs':
+      activeJobs = message.jobs
+      renderActiveJobs()
+      break
+    case 'log':
+      pushLog(message.message, message.level)
+      break
+    case 'error':
+      pushLog(message.message, 'warn')
+      break
+    case 'folder-write':
+      handleFolderWrite(message)
+      break
+    default:
+      break
+  }
+}
+
+const handleFolderWrite = (message: Extract<DashboardMessage, { type: 'folder-write' }>) => {
+  const { requestId } = message
+  if (!exportFolder) {
+    send({ type: 'folder-written', requestId, error: 'No export folder is selected.' })
+    return
+  }
+
+  writeExportFile(exportFolder, message)
+    .then((result) => send({ type: 'folder-written', requestId, result }))
+    .catch((error) => {
+      send({ type: 'folder-written', requestId, error: error instanceof Error ? error.message : String(error) })
+    })
+}
+
+const renderOutput = () => {
+  const folderMode = outputSelect.value === 'folder'
+  pickFolderButton.classList.toggle('lgd-hidden', !folderMode)
+  folderNameLabel.classList.toggle('lgd-hidden', !folderMode)
+  folderNameLabel.textContent = exportFolder ? exportFolder.name : 'No folder chosen'
+}
+
+const chooseFolder = async () => {
+  try {
+    exportFolder = await pickExportFolder()
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'AbortError')) {
+      pushLog(`Could not open the folder picker: ${error instanceof Error ? error.message : String(error)}`, 'warn')
+    }
+  }
+  renderOutput()
+}
+
+/** Starts a job that writes into the chosen folder, asking for it or for access first. */
+const startFolderExport = async () => {
+  if (!exportFolder) {
+    await chooseFolder()
+  }
+  if (!exportFolder) {
+    return
+  }
+  if (!(await ensureWritable(exportFolder))) {
+    pushLog(`Write access to ${exportFolder.name} was denied.`, 'warn')
+    return
+  }
+  send({ type: 'start', settings: selectedSettings(), folder: exportFolder.name })
+}
+
+const selectedSettings = (): DownloadSettings => {
+  const preset = presets.find(({ name }) => name === presetSelect.value)
+  return {
+    ...savedSettings,
+    ...preset?.settings,
+    onlyNew: onlyNewInput.checked,
+    outputFormat: OUTPUT_FORMATS.includes(outputSelect.value as OutputFormat)
+      ? (outputSelect.value as OutputFormat)
+      : savedSettings.outputFormat,
+    // there is no picker outside the gallery page
+    pick: false,
+  }
+}
+
+const renderSettingsSummary = () => {
+  const settings = selectedSettings()
+  settingsSummary.textContent = [
+    settings.sequential ? 'Sequential' : `${settings.concurrency} stream(s)`,
+    `throttle ${settings.throttleMs} ms`,
+    settings.adaptive ? 'adaptive rate' : null,
+    `${settings.retryAttempts} attempt(s)`,
+    `file names ${settings.filenameTemplate}`,
+    outputSelect.value === 'folder' ? 'local folder' : OUTPUT_FORMAT_LABELS[settings.outputFormat],
+    settings.embedMetadata ? 'metadata in images' : null,
+  ].filter(Boolean).join(' • ')
+}
+
+const renderActiveJobs = () => {
+  startButton.textContent = activeJobs.length ? 'Add to queue' : 'Start export'
+
+  if (!activeJobs.length) {
+    const empty = document.createElement('p')
+    empty.className = 'lgd-text-sm lgd-text-slate-400'
+    empty.textContent = 'No download running.'
+    activeContainer.replaceChildren(empty)
+    return
+  }
+
+  activeContainer.replaceChildren(...activeJobs.map(createActiveJobCard))
+}
+
+const createActiveJobCard = (job: ActiveJobSummary): HTMLElement => {
+  const percent = job.total ? Math.min(100, Math.round((job.completed / job.total) * 100)) : 0
+
+  const card = document.createElement('article')
+  card.className = 'lgd-flex lgd-flex-col lgd-gap-3 lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-p-4'
+
+  const header = document.createElement('div')
+  header.className = 'lgd-flex lgd-items-center lgd-justify-between lgd-gap-3 lgd-text-sm'
+  const title = document.createElement('span')
+  title.className = 'lgd-font-semibold'
+  title.textContent = [
+    `${job.source === 'dashboard' ? 'Dashboard' : 'Gallery tab'} export`,
+    STATE_LABELS[job.state],
+    `queued ${formatTime(job.startedAt)}`,
+  ].join(' • ')
+  const actions = document.createElement('div')
+  actions.className = 'lgd-flex lgd-shrink-0 lgd-gap-2'
+  actions.append(
+    job.state === 'paused'
+      ? createJobButton('Resume', () => send({ type: 'resume', runId: job.runId }))
+      : createJobButton('Pause', () => send({ type: 'pause', runId: job.runId })),
+    createJobButton('Cancel', () => send({ type: 'cancel', runId: job.runId }))
+  )
+  header.append(title, actions)
+
+  const bar = document.createElement('div')
+  bar.className = 'lgd-h-2 lgd-w-full lgd-overflow-hidden lgd-rounded-full lgd-bg-surface'
+  const fill = document.createElement('span')
+  fill.className = 'lgd-block lgd-h-full lgd-bg-accent lgd-transition-all lgd-duration-300'
+  fill.style.width = `${percent}%`
+  bar.append(fill)
+
+  const details = document.createElement('div')
+  details.className = 'lgd-flex lgd-items-center lgd-justify-between lgd-gap-3 lgd-text-xs lgd-text-slate-300'
+  const status = document.createElement('span')
+  status.textContent = job.status
+  const counts = document.createElement('span')
+  counts.textContent = `${job.completed} / ${job.total}${job.failed ? ` • ${job.failed} failed` : ''}`
+  details.append(status, counts)
+
+  card.append(header, bar, details)
+  return card
+}
+
+const createJobButton = (label: string, onClick: () => void): HTMLButtonElement => {
+  const button = document.createElement('button')
+  button.type = 'button'
+  button.className = 'lgd-rounded-xl lgd-border lgd-border-outline lgd-px-3 lgd-py-1 lgd-text-xs lgd-font-semibold lgd-text-slate-300 hover:lgd-text-slate-100'
+  button.textContent = label
+  button.addEventListener('click', onClick)
+  return button
+}
+
+const renderHistory = (history: JobHistoryEntry[]) => {
+  clearHistoryButton.classList.toggle('lgd-hidden', !history.length)
+
+  if (!history.length) {
+    const empty = document.createElement('li')
+    empty.className = 'lgd-text-sm lgd-text-slate-400'
+    empty.textContent = 'No past jobs yet.'
+    historyList.replaceChildren(empty)
+    return
+  }
+
+  historyList.replaceChildren(...history.map(createHistoryItem))
+}
+
+const createHistoryItem = (entry: JobHistoryEntry): HTMLElement => {
+  const item = document.createElement('li')
+  item.className = 'lgd-flex lgd-flex-col lgd-gap-2 lgd-rounded-2xl lgd-border lgd-border-outline lgd-bg-surfaceAlt lgd-px-4 lgd-py-3 lgd-text-xs lgd-text-slate-300'
+
+  const header = document.createElement('div')
+  header.className = 'lgd-flex lgd-items-center lgd-justify-between lgd-gap-3'
+  const summary = document.createElement('span')
+  summary.className = entry.outcome === 'completed' ? 'lgd-text-sm lgd-text-slate-100' : 'lgd-text-sm lgd-text-danger'
+  summary.textContent = [
+    `${OUTCOME_LABELS[entry.outcome]} • ${formatTime(entry.finishedAt)}`,
+    `${entry.succeeded}/${entry.total} saved`,
+    entry.failed ? `${entry.failed} failed` : null,
+  ].filter(Boolean).join(' • ')
+  const exportButton = createLinkButton('Export report', () => exportReport(entry))
+  header.append(summary, exportButton)
+
+  const details = document.createElement('span')
+  details.textContent = [
+    entry.source === 'dashboard' ? 'From the dashboard' : 'From the gallery tab',
+    `ran ${formatDuration(entry.finishedAt - entry.startedAt)}`,
+    entry.settings
+      ? `${entry.settings.concurrency} stream(s), throttle ${entry.settings.throttleDelayMs} ms, ${entry.settings.retryAttempts} attempt(s)`
+      : null,
+    entry.message ?? null,
+  ].filter(Boolean).join(' • ')
+  item.append(header, details)
+
+  entry.outputs.forEach((output) => item.append(createOutputRow(output)))
+
+  if (entry.failedScreens.length) {
+    const failures = document.createElement('details')
+    const label = document.createElement('summary')
+    label.className = 'lgd-cursor-pointer lgd-text-danger'
+    label.textContent = `${entry.failedScreens.length} failed screenshot(s)`
+    const list = document.createElement('ul')
+    list.className = 'lgd-mt-1 lgd-max-h-32 lgd-space-y-0.5 lgd-overflow-y-auto lgd-scrollbar'
+    list.append(
+      ...entry.failedScreens.map(({ id36, reason }) => {
+        const row = document.createElement('li')
+        row.textContent = `${id36} — ${reason}`
+        return row
+      })
+    )
+    failures.append(label, list)
+    item.append(failures)
+  }
+
+  return item
+}
+
+const createOutputRow = (output: JobOutputFile): HTMLElement => {
+  const row = document.createElement('div')
+  row.className = 'lgd-flex lgd-items-center lgd-justify-between lgd-gap-3'
+  const name = document.createElement('span')
+  name.className = 'lgd-truncate lgd-text-slate-200'
+  name.textContent = output.bytes ? `${output.filename} (${formatBytes(output.bytes)})` : output.filename
+  row.append(name)
+
+  const { downloadId } = output
+  if (downloadId !== undefined) {
+    const actions = document.createElement('span')
+    actions.className = 'lgd-flex lgd-shrink-0 lgd-gap-3'
+    actions.append(
+      createLinkButton('Open', () => revealDownload(downloadId, 'open')),
+      createLinkButton('Show in folder', () => revealDownload(downloadId, 'show'))
+    )
+    row.append(actions)
+  }
+
+  return row
+}
+
+const createLinkButton = (label: string, onClick: () => void | Promise<void>): HTMLButtonElement => {
+  const button = document.createElement('button')
+  button.type = 'button'
+  button.className = 'lgd-shrink-0 lgd-text-accent hover:lgd-text-accentHover'
+  button.textContent = label
+  button.addEventListener('click', () => {
+    Promise.resolve(onClick()).catch((error) => {
+      pushLog(error instanceof Error ? error.message : String(error), 'warn')
+    })
+  })
+  return button
+}
+
+const revealDownload = async (downloadId: number, action: 'open' | 'show') => {
+  const [item] = await chrome.downloads.search({ id: downloadId })
+  if (!item || !item.exists || item.state !== 'complete') {
+    throw new Error(`${item?.filename || 'The file'} is no longer available (moved, deleted, or never finished).`)
+  }
+
+  if (action === 'open') {
+    chrome.downloads.open(downloadId)
+  } else {
+    chrome.downloads.show(downloadId)
+  }
+}
+
+const exportReport = (entry: JobHistoryEntry) => {
+  const url = URL.createObjectURL(new Blob([buildJobReport(entry)], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = jobReportFilename(entry)
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+const pushLog = (message: string, level: 'info' | 'warn') => {
+  logContainer.classList.remove('lgd-hidden')
+  const entry = document.createElement('div')
+  entry.className = level === 'warn' ? 'lgd-text-danger' : 'lgd-text-slate-200'
+  entry.textContent = message
+  logContainer.appendChild(entry)
+  while (logContainer.childElementCount > MAX_LOG_ENTRIES) {
+    logContainer.firstElementChild?.remove()
+  }
+  logContainer.scrollTop = logContainer.scrollHeight
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  const minutes = Math.floor(seconds / 60)
+  return minutes ? `${minutes} min ${seconds % 60} s` : `${seconds} s`
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+const loadSettings = async () => {
+  savedSettings = { ...DEFAULT_SETTINGS, ...(await readSettings()) }
+  presets = await listPresets()
+  onlyNewInput.checked = savedSettings.onlyNew
+
+  presetSelect.append(
+    ...presets.map(({ name }) => {
+      const option = document.createElement('option')
+      option.value = name
+      option.textContent = name
+      return option
+    })
+  )
+  renderSettingsSummary()
+}
+
+presetSelect.addEventListener('change', renderSettingsSummary)
+
+outputSelect.addEventListener('change', () => {
+  renderOutput()
+  renderSettingsSummary()
+})
+
+pickFolderButton.addEventListener('click', () => {
+  chooseFolder().catch(() => {
+    // logged by chooseFolder
+  })
+})
+
+startButton.addEventListener('click', () => {
+  logContainer.replaceChildren()
+  if (outputSelect.value === 'folder') {
+    startFolderExport().catch((error) => {
+      pushLog(error instanceof Error ? error.message : String(error), 'warn')
+    })
+    return
+  }
+  send({ type: 'start', settings: selectedSettings() })
+})
+
+clearHistoryButton.addEventListener('click', () => {
+  clearJobHistory().catch(() => {
+    // keep the list as is
+  })
+})
+
+connect()
+renderActiveJobs()
+loadSettings().catch(() => {
+  renderSettingsSummary()
+})
+readExportFolder()
+  .then((handle) => {
+    exportFolder = handle
+    renderOutput()
+  })
+  .catch(() => renderOutput())
+readJobHistory()
+  .then(renderHistory)
+  .catch(() => renderHistory([]))
+onJobHistoryChanged(renderHistory)
@@ -1,5 +1,6 @@
 const RPC_ENDPOINT = 'https://api.prntscr.com/v1/'
 const DEFAULT_BATCH_SIZE = 20
+export const DEFAULT_ACCOUNT = 'default'
 
 const boundFetch: typeof fetch = (input, init) => globalThis.fetch(input, init)
 
@@ -14,6 +15,10 @@ type LightshotScreenPayload = {
   id36: string;
   url: string;
   created_at?: string;
+  date?: string;
+  thumb?: string;
+  description?: string | null;
+  share_url?: string | null;
   [key: string]: unknown;
 };
 
@@ -56,6 +61,7 @@ export interface ScreenMeta {
   thumb?: string,
   description?: string | null,
   share_url?: string | null,
+  created_at?: string | null,
 }
 
 export interface FetchScreensResult {
@@ -63,6 +69,25 @@ export interface FetchScreensResult {
   nextCursor?: string;
 }
 
+export interface GetAllScreensOptions {
+  /** Stops pagination at the first screen matching the predicate (the match itself is excluded). */
+  stopAt?: (screen: ScreenMeta) => boolean;
+}
+
+type LightshotUserInfoResponse = {
+  result?: {
+    id?: unknown;
+    user_id?: unknown;
+    login?: unknown;
+    email?: unknown;
+    user?: {
+      id?: unknown;
+      login?: unknown;
+      email?: unknown;
+    };
+  };
+};
+
 export class LightshotClient {
   constructor(private readonly fetchImpl: typeof fetch = boundFetch) {}
 
@@ -72,30 +97,7 @@ export class LightshotClient {
       start_id36: cursor === '0' ? 0 : cursor,
     }
 
-    const payload: JsonRpcPayload = {
-      jsonrpc: '2.0',
-      method: 'get_user_screens',
-      params,
-      id: Date.now(),
-    }
-
-    const response = await this.fetchImpl(RPC_ENDPOINT, {
-      method: 'POST',
-      credentials: 'include',
-      headers: {
-        'content-type': 'application/json',
-        'x-requested-with': 'XMLHttpRequest',
-        accept: 'application/json, text/javascript, */*; q=0.01',
-      },
-      body: JSON.stringify(payload),
-      signal,
-    })
-
-    if (!response.ok) {
-      throw new Error(`Lightshot API returned ${response.status}`)
-    }
-
-    const json = (await response.json()) as LightshotResponse
+    const json = await this.call<LightshotResponse>('get_user_screens', params, signal)
 
     const result = json.result ?? {}
     const candidateScreens =
@@ -127,7 +129,15 @@ export class LightshotClient {
     const screens = candidateScreens.map<ScreenMeta>((screen) => ({
       id36: String(screen.id36),
       url: String(screen.url),
-      date: typeof screen.date === 'string' ? screen.date : new Date().toLocaleDateString(),
+      date: typeof screen.date === 'string'
+        ? screen.date
+        : typeof screen.created_at === 'string'
+          ? screen.created_at
+          : new Date().toLocaleDateString(),
+      thumb: typeof screen.thumb === 'string' ? screen.thumb : undefined,
+      description: typeof screen.description === 'string' ? screen.description : null,
+      share_url: typeof screen.share_url === 'string' ? screen.share_url : null,
+      created_at: typeof screen.created_at === 'string' ? screen.created_at : null,
     }))
 
     return {
@@ -148,7 +158,37 @@ export class LightshotClient {
     }
   }
 
-  async getAllScreens(batchSize = DEFAULT_BATCH_SIZE, signal?: AbortSignal): Promise<ScreenMeta[]> {
+  /**
+   * Resolves a stable identifier for the signed-in account, used to key
+   * per-account state. Falls back to a shared key when the API does not say.
+   */
+  async getAccountKey(signal?: AbortSignal): Promise<string> {
+    try {
+      const json = await this.call<LightshotUserInfoResponse>('get_userinfo', {}, signal)
+      const result = json.result
+      const candidate =
+        result?.id ??
+        result?.user_id ??
+        result?.user?.id ??
+        result?.login ??
+        result?.user?.login ??
+        result?.email ??
+        result?.user?.email
+
+      return candidate === undefined || candidate === null || candidate === '' ? DEFAULT_ACCOUNT : String(candidate)
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error
+      }
+      return DEFAULT_ACCOUNT
+    }
+  }
+
+  async getAllScreens(
+    batchSize = DEFAULT_BATCH_SIZE,
+    signal?: AbortSignal,
+    { stopAt }: GetAllScreensOptions = {}
+  ): Promise<ScreenMeta[]> {
     const allScreens: ScreenMeta[] = []
     let cursor = '0'
 
@@ -158,6 +198,12 @@ export class LightshotClient {
         break
       }
 
+      const stopIndex = stopAt ? screens.findIndex(stopAt) : -1
+      if (stopIndex !== -1) {
+        allScreens.push(...screens.slice(0, stopIndex))
+        break
+      }
+
       allScreens.push(...screens)
 
       if (!nextCursor) {
@@ -178,4 +224,44 @@ export class LightshotClient {
 
     return allScreens
   }
+
+  private async call<T>(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const payload: JsonRpcPayload = {
+      jsonrpc: '2.0',
+      method,
+      params,
+      id: Date.now(),
+    }
+
+    const response = await this.fetchImpl(RPC_ENDPOINT, {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'content-type': 'application/json',
+        'x-requested-with': 'XMLHttpRequest',
+        accept: 'application/json, text/javascript, */*; q=0.01',
+      },
+      body: JSON.stringify(payload),
+      signal,
+    })
+
+    if (!response.ok) {
+      throw new Error(`Lightshot API returned ${response.status}`)
+    }
+
+    return (await response.json()) as T
+  }
+}
+
+export const parseLightshotDate = (value?: string): Date | undefined => {
+  if (!value) {
+    return undefined
+  }
+
+  const parsed = new Date(value)
+  if (!Number.isNaN(parsed.getTime())) {
+    return parsed
+  }
+
+  return undefined
 }
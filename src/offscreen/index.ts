@@ -0,0 +1,33 @@
+import { takeExport } from '../shared/database'
+
+type OffscreenRequest =
+  | { target: 'offscreen'; type: 'create-object-url'; key: string }
+  | { target: 'offscreen'; type: 'revoke-object-url'; url: string }
+
+chrome.runtime.onMessage.addListener((message: OffscreenRequest, _sender, sendResponse) => {
+  if (message?.target !== 'offscreen') {
+    return false
+  }
+
+  switch (message.type) {
+    case 'create-object-url':
+      takeExport(message.key)
+        .then((blob) => {
+          if (!blob) {
+            sendResponse({ error: 'Archive not found.' })
+            return
+          }
+          sendResponse({ url: URL.createObjectURL(blob) })
+        })
+        .catch((error) => {
+          sendResponse({ error: error instanceof Error ? error.message : String(error) })
+        })
+      return true
+    case 'revoke-object-url':
+      URL.revokeObjectURL(message.url)
+      sendResponse({})
+      return false
+    default:
+      return false
+  }
+})
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { GetAllScreensOptions, ScreenMeta } from '../domain/lightshotClient'
+import { stubChromeStorage } from '../test/chromeStorage'
+import { collectScreens } from './collectScreens'
+import { recordExport } from './syncState'
+
+const screen = (id36: string, date = '2024-01-01'): ScreenMeta => ({ id36, url: `https://img.lightshot.app/${id36}.png`, date })
+
+const ids = (screens: ScreenMeta[]) => screens.map(({ id36 }) => id36)
+
+/** A client whose gallery holds `gallery`, newest first, honouring `stopAt` like the real one. */
+const fakeClient = (gallery: ScreenMeta[]) => ({
+  getAllScreens: async (_batchSize?: number, _signal?: AbortSignal, { stopAt }: GetAllScreensOptions = {}) => {
+    const stopIndex = stopAt ? gallery.findIndex(stopAt) : -1
+    return stopIndex === -1 ? gallery : gallery.slice(0, stopIndex)
+  },
+})
+
+describe('collectScreens', () => {
+  beforeEach(() => {
+    stubChromeStorage()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('collects the whole gallery without onlyNew', async () => {
+    await recordExport('me', ['b', 'a'])
+    const collected = await collectScreens(fakeClient([screen('c'), screen('b'), screen('a')]), 'me', {})
+
+    expect(ids(collected.screens)).toEqual(['c', 'b', 'a'])
+    expect(collected).toMatchObject({ syncState: null, newCount: 3, retriedCount: 0 })
+  })
+
+  it('stops at the last cursor, not at older known ids', async () => {
+    await recordExport('me', ['b'])
+    await recordExport('me', ['d'])
+    const gallery = [screen('e'), screen('b'), screen('d'), screen('c')]
+    const collected = await collectScreens(fakeClient(gallery), 'me', { onlyNew: true })
+
+    expect(ids(collected.screens)).toEqual(['e'])
+    expect(collected.newCount).toBe(1)
+  })
+
+  it('counts earlier failures apart from new screenshots', async () => {
+    await recordExport('me', ['b'], undefined, [screen('a')])
+    const collected = await collectScreens(fakeClient([screen('c'), screen('b'), screen('a')]), 'me', { onlyNew: true })
+
+    expect(ids(collected.screens)).toEqual(['c', 'a'])
+    expect(collected).toMatchObject({ newCount: 1, retriedCount: 1, unfilteredCount: 2 })
+  })
+
+  it('applies the filter after collecting', async () => {
+    const gallery = [screen('c', '2024-03-01'), screen('b', '2024-02-01'), screen('a', '2024-01-01')]
+    const collected = await collectScreens(fakeClient(gallery), 'me', { filter: { mostRecent: 2 } })
+
+    expect(ids(collected.screens)).toEqual(['c', 'b'])
+    expect(collected.unfilteredCount).toBe(3)
+  })
+})
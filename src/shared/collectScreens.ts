@@ -0,0 +1,52 @@
+import { LightshotClient, ScreenMeta } from '../domain/lightshotClient'
+import { applyScreenFilter, isBeforeDateWindow, ScreenFilter } from './screenFilter'
+import { readSyncState, SyncState, withPreviousFailures } from './syncState'
+
+export interface CollectedScreens {
+  /** What the run exports, in gallery order. */
+  screens: ScreenMeta[]
+  /** State an "only new" run compared against; null for full runs and accounts without one. */
+  syncState: SyncState | null
+  /** Screenshots collected from the gallery, before filtering. */
+  newCount: number
+  /** Earlier failures added back after them, before filtering. */
+  retriedCount: number
+  /** How many screenshots the filters were applied to. */
+  unfilteredCount: number
+}
+
+/**
+ * Lists the screenshots of a run: the whole gallery, or with `onlyNew` the
+ * ones added since the account's last export followed by earlier failures,
+ * then narrowed by `filter`. The content script and the background worker
+ * both collect through here so they agree on what counts as new.
+ */
+export const collectScreens = async (
+  client: Pick<LightshotClient, 'getAllScreens'>,
+  account: string,
+  { onlyNew = false, filter = {} }: { onlyNew?: boolean; filter?: ScreenFilter },
+  signal?: AbortSignal
+): Promise<CollectedScreens> => {
+  const syncState = onlyNew ? await readSyncState(account) : null
+  const lastCursor = syncState?.lastCursor
+
+  const scanned = await client.getAllScreens(undefined, signal, {
+    stopAt: (screen) => isBeforeDateWindow(screen, filter) || (lastCursor !== undefined && screen.id36 === lastCursor),
+  })
+
+  let collected = scanned
+  let newCount = scanned.length
+  if (syncState) {
+    const known = new Set(syncState.ids)
+    collected = withPreviousFailures(scanned, syncState)
+    newCount = scanned.filter(({ id36 }) => !known.has(id36)).length
+  }
+
+  return {
+    screens: applyScreenFilter(collected, filter),
+    syncState,
+    newCount,
+    retriedCount: collected.length - newCount,
+    unfilteredCount: collected.length,
+  }
+}
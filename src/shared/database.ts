@@ -0,0 +1,77 @@
+const DB_NAME = 'lightshot-gallery-downloader'
+const DB_VERSION = 3
+
+export const JOBS_STORE = 'jobs'
+export const FILES_STORE = 'files'
+export const FILES_BY_JOB_INDEX = 'byJob'
+export const EXPORTS_STORE = 'exports'
+export const HANDLES_STORE = 'handles'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) {
+    return databasePromise
+  }
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(JOBS_STORE)) {
+        db.createObjectStore(JOBS_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        const files = db.createObjectStore(FILES_STORE, { keyPath: ['jobId', 'id36'] })
+        files.createIndex(FILES_BY_JOB_INDEX, 'jobId', { unique: false })
+      }
+      if (!db.objectStoreNames.contains(EXPORTS_STORE)) {
+        db.createObjectStore(EXPORTS_STORE)
+      }
+      if (!db.objectStoreNames.contains(HANDLES_STORE)) {
+        db.createObjectStore(HANDLES_STORE)
+      }
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      db.onversionchange = () => {
+        db.close()
+        databasePromise = null
+      }
+      resolve(db)
+    }
+
+    request.onerror = () => {
+      databasePromise = null
+      reject(request.error ?? new Error('Failed to open IndexedDB'))
+    }
+  })
+
+  return databasePromise
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+  })
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+  })
+
+/** Reads and deletes a blob the background worker handed over through the exports store. */
+export const takeExport = async (key: string): Promise<Blob | undefined> => {
+  const db = await openDatabase()
+  const transaction = db.transaction(EXPORTS_STORE, 'readwrite')
+  const store = transaction.objectStore(EXPORTS_STORE)
+  const blob = await requestToPromise<Blob | undefined>(store.get(key))
+  store.delete(key)
+  await transactionDone(transaction)
+  return blob
+}
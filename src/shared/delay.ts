@@ -0,0 +1,29 @@
+export const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (ms <= 0) {
+      resolve()
+      return
+    }
+
+    let settled = false
+    let timer: ReturnType<typeof setTimeout>
+    const onAbort = () => {
+      if (settled) {
+        return
+      }
+      settled = true
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+
+    timer = setTimeout(() => {
+      if (settled) {
+        return
+      }
+      settled = true
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
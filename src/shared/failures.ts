@@ -0,0 +1,23 @@
+import { ScreenMeta } from '../domain/lightshotClient'
+
+export type FailureKind = 'http' | 'account_trouble' | 'network' | 'timeout' | 'invalid_content' | 'aborted'
+
+export interface FailedScreen {
+  screen: ScreenMeta
+  kind: FailureKind
+  /** HTTP status of the last attempt, when the server answered. */
+  status?: number
+  reason: string
+}
+
+const FAILURE_LABELS: Record<FailureKind, string> = {
+  http: 'HTTP error',
+  account_trouble: 'Missing on Lightshot',
+  network: 'Network error',
+  timeout: 'Timed out',
+  invalid_content: 'Not an image',
+  aborted: 'Aborted',
+}
+
+export const describeFailure = ({ kind, status }: Pick<FailedScreen, 'kind' | 'status'>): string =>
+  kind === 'http' && status ? `${FAILURE_LABELS.http} ${status}` : FAILURE_LABELS[kind]
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { ScreenMeta } from '../domain/lightshotClient'
+import { createFileNamer, DEFAULT_NAMING, normalizeNaming } from './filenameTemplate'
+
+const screen = (id36: string, overrides: Partial<ScreenMeta> = {}): ScreenMeta => ({
+  id36,
+  url: `https://img.lightshot.app/${id36}.png`,
+  // no zone: parsed and formatted in local time
+  date: '2024-05-06T07:08:09',
+  ...overrides,
+})
+
+const context = { index: 0, total: 1, ext: 'png' }
+
+describe('normalizeNaming', () => {
+  it('falls back to the defaults for missing or invalid values', () => {
+    expect(normalizeNaming(undefined)).toEqual(DEFAULT_NAMING)
+    expect(normalizeNaming({ template: '   ', folderLayout: 'decade' })).toEqual(DEFAULT_NAMING)
+  })
+
+  it('trims and caps the template', () => {
+    expect(normalizeNaming({ template: ' {id36}.{ext} ', folderLayout: 'year' })).toEqual({
+      template: '{id36}.{ext}',
+      folderLayout: 'year',
+    })
+    expect(normalizeNaming({ template: 'x'.repeat(500) }).template).toHaveLength(200)
+  })
+})
+
+describe('createFileNamer', () => {
+  it('renders the default template', () => {
+    expect(createFileNamer(DEFAULT_NAMING)(screen('abc'), context)).toBe('screenshot_abc.png')
+  })
+
+  it('renders every token', () => {
+    const name = createFileNamer({ template: '{index} {date:YYYY.MM.DD HH-mm-ss} {description} {id36}.{ext}', folderLayout: 'flat' })
+    expect(name(screen('abc', { description: ' Login page ' }), { index: 6, total: 120, ext: 'jpg' })).toBe(
+      '007 2024.05.06 07-08-09 Login page abc.jpg'
+    )
+  })
+
+  it('prefers created_at over the listing date', () => {
+    const name = createFileNamer({ template: '{date}', folderLayout: 'flat' })
+    expect(name(screen('abc', { created_at: '2023-01-02T03:04:05' }), context)).toBe('2023-01-02.png')
+  })
+
+  it('appends the extension when the template has none and leaves unknown tokens alone', () => {
+    expect(createFileNamer({ template: '{id36}-{nope}', folderLayout: 'flat' })(screen('abc'), context)).toBe(
+      'abc-{nope}.png'
+    )
+  })
+
+  it('replaces characters that are not allowed in file names', () => {
+    const name = createFileNamer({ template: '{description}.{ext}', folderLayout: 'flat' })
+    expect(name(screen('abc', { description: 'a/b:c*d?' }), context)).toBe('a_b_c_d_.png')
+  })
+
+  it('prefixes reserved Windows names', () => {
+    expect(createFileNamer({ template: 'con.{ext}', folderLayout: 'flat' })(screen('abc'), context)).toBe('_con.png')
+  })
+
+  it('falls back to the id when the name renders empty', () => {
+    const name = createFileNamer({ template: '{description}.{ext}', folderLayout: 'flat' })
+    expect(name(screen('abc'), context)).toBe('abc.png')
+  })
+
+  it('suffixes collisions regardless of case', () => {
+    const name = createFileNamer({ template: 'shot.{ext}', folderLayout: 'flat' })
+    expect([name(screen('a'), context), name(screen('b'), context), name(screen('c'), context)]).toEqual([
+      'shot.png',
+      'shot (2).png',
+      'shot (3).png',
+    ])
+
+    const upper = createFileNamer({ template: '{id36}.{ext}', folderLayout: 'flat' })
+    expect([upper(screen('Ab'), context), upper(screen('aB'), context)]).toEqual(['Ab.png', 'aB (2).png'])
+  })
+
+  it.each([
+    ['flat', 'screenshot_abc.png'],
+    ['year', '2024/screenshot_abc.png'],
+    ['year-month', '2024/05/screenshot_abc.png'],
+  ] as const)('places files in %s folders', (folderLayout, expected) => {
+    expect(createFileNamer({ ...DEFAULT_NAMING, folderLayout })(screen('abc'), context)).toBe(expected)
+  })
+
+  it('groups screenshots without a date in their own folder', () => {
+    const name = createFileNamer({ ...DEFAULT_NAMING, folderLayout: 'year' })
+    expect(name(screen('abc', { date: 'soon' }), context)).toBe('unknown-date/screenshot_abc.png')
+  })
+})
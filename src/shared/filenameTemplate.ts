@@ -0,0 +1,155 @@
+import { parseLightshotDate, ScreenMeta } from '../domain/lightshotClient'
+
+export type FolderLayout = 'flat' | 'year' | 'year-month'
+
+export interface NamingOptions {
+  template: string
+  folderLayout: FolderLayout
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = 'screenshot_{id36}.{ext}'
+export const DEFAULT_NAMING: NamingOptions = {
+  template: DEFAULT_FILENAME_TEMPLATE,
+  folderLayout: 'flat',
+}
+export const FOLDER_LAYOUTS: FolderLayout[] = ['flat', 'year', 'year-month']
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD'
+const MAX_TEMPLATE_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 60
+const MAX_SEGMENT_LENGTH = 150
+const UNKNOWN_DATE_FOLDER = 'unknown-date'
+const TOKEN_PATTERN = /\{(\w+)(?::([^}]*))?\}/g
+const INVALID_FILENAME_CHARS = /[<>:"/\\|?*\u0000-\u001f]/g
+const RESERVED_WINDOWS_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i
+
+export interface FileNameContext {
+  index: number
+  total: number
+  ext: string
+}
+
+export const normalizeNaming = (value: { template?: unknown; folderLayout?: unknown } | undefined): NamingOptions => {
+  const template =
+    typeof value?.template === 'string' && value.template.trim()
+      ? value.template.trim().slice(0, MAX_TEMPLATE_LENGTH)
+      : DEFAULT_FILENAME_TEMPLATE
+  const folderLayout = FOLDER_LAYOUTS.includes(value?.folderLayout as FolderLayout)
+    ? (value?.folderLayout as FolderLayout)
+    : DEFAULT_NAMING.folderLayout
+
+  return { template, folderLayout }
+}
+
+/**
+ * Builds a stateful namer that renders the template for each screenshot and
+ * guarantees unique paths by suffixing collisions with ` (2)`, ` (3)`, ...
+ *
+ * Supported tokens: `{id36}`, `{index}` (1-based, zero-padded to the gallery
+ * size), `{date}` / `{date:YYYY-MM-DD HH.mm.ss}`, `{description}` and `{ext}`.
+ */
+export const createFileNamer = ({ template, folderLayout }: NamingOptions) => {
+  const usedPaths = new Set<string>()
+
+  return (screen: ScreenMeta, { index, total, ext }: FileNameContext): string => {
+    const date = parseLightshotDate(screen.created_at ?? screen.date)
+    const indexWidth = String(Math.max(total, 1)).length
+
+    let rendered = template.replace(TOKEN_PATTERN, (match, token: string, argument?: string) => {
+      switch (token) {
+        case 'id36':
+          return screen.id36
+        case 'index':
+          return String(index + 1).padStart(indexWidth, '0')
+        case 'date':
+          return date ? formatDate(date, argument || DEFAULT_DATE_FORMAT) : 'unknown-date'
+        case 'description':
+          return (screen.description ?? '').trim().slice(0, MAX_DESCRIPTION_LENGTH)
+        case 'ext':
+          return ext
+        default:
+          return match
+      }
+    })
+
+    if (!template.includes('{ext}')) {
+      rendered = `${rendered}.${ext}`
+    }
+
+    let baseName = sanitizeSegment(rendered)
+    if (!baseName || baseName === `.${ext}`) {
+      baseName = `${screen.id36}.${ext}`
+    }
+
+    const folder = folderFor(folderLayout, date)
+    const candidate = folder ? `${folder}/${baseName}` : baseName
+    return reserveUnique(candidate, usedPaths)
+  }
+}
+
+const folderFor = (layout: FolderLayout, date: Date | undefined): string => {
+  if (layout === 'flat') {
+    return ''
+  }
+
+  if (!date) {
+    return UNKNOWN_DATE_FOLDER
+  }
+
+  const year = String(date.getFullYear())
+  return layout === 'year' ? year : `${year}/${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+const formatDate = (date: Date, format: string): string => {
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: String(date.getMonth() + 1).padStart(2, '0'),
+    DD: String(date.getDate()).padStart(2, '0'),
+    HH: String(date.getHours()).padStart(2, '0'),
+    mm: String(date.getMinutes()).padStart(2, '0'),
+    ss: String(date.getSeconds()).padStart(2, '0'),
+  }
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (part) => parts[part])
+}
+
+const sanitizeSegment = (value: string): string => {
+  let cleaned = value
+    .replace(INVALID_FILENAME_CHARS, '_')
+    .replace(/\s+/g, ' ')
+    .replace(/ (\.[^.]+)$/, '$1')
+    .trim()
+    .replace(/[. ]+$/, '')
+
+  if (RESERVED_WINDOWS_NAMES.test(cleaned)) {
+    cleaned = `_${cleaned}`
+  }
+
+  if (cleaned.length > MAX_SEGMENT_LENGTH) {
+    const extension = cleaned.match(/\.[^.]{1,8}$/)?.[0] ?? ''
+    cleaned = cleaned.slice(0, MAX_SEGMENT_LENGTH - extension.length) + extension
+  }
+
+  return cleaned
+}
+
+const reserveUnique = (path: string, usedPaths: Set<string>): string => {
+  const key = (candidate: string) => candidate.toLowerCase()
+  if (!usedPaths.has(key(path))) {
+    usedPaths.add(key(path))
+    return path
+  }
+
+  const dot = path.lastIndexOf('.')
+  const slash = path.lastIndexOf('/')
+  const hasExtension = dot > slash + 1
+  const stem = hasExtension ? path.slice(0, dot) : path
+  const extension = hasExtension ? path.slice(dot) : ''
+
+  for (let counter = 2; ; counter += 1) {
+    const candidate = `${stem} (${counter})${extension}`
+    if (!usedPaths.has(key(candidate))) {
+      usedPaths.add(key(candidate))
+      return candidate
+    }
+  }
+}
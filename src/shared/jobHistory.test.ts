@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { stubChromeStorage } from '../test/chromeStorage'
+import { appendJobHistory, clearJobHistory, JobHistoryEntry, readJobHistory } from './jobHistory'
+
+const entry = (runId: string): JobHistoryEntry => ({
+  runId,
+  source: 'gallery',
+  startedAt: 0,
+  finishedAt: 0,
+  outcome: 'completed',
+  total: 1,
+  processed: 1,
+  succeeded: 1,
+  failed: 0,
+  failedScreens: [],
+  outputs: [],
+})
+
+describe('appendJobHistory', () => {
+  beforeEach(() => {
+    stubChromeStorage()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps every entry of jobs that finish together, newest first', async () => {
+    await Promise.all([appendJobHistory(entry('a')), appendJobHistory(entry('b')), appendJobHistory(entry('c'))])
+
+    expect((await readJobHistory()).map(({ runId }) => runId)).toEqual(['c', 'b', 'a'])
+  })
+
+  it('keeps the 50 most recent entries', async () => {
+    for (let index = 0; index < 55; index += 1) {
+      await appendJobHistory(entry(`run-${index}`))
+    }
+
+    const history = await readJobHistory()
+    expect(history).toHaveLength(50)
+    expect(history[0].runId).toBe('run-54')
+  })
+
+  it('clears after the writes queued before it', async () => {
+    const appended = appendJobHistory(entry('a'))
+    await clearJobHistory()
+    await appended
+
+    expect(await readJobHistory()).toEqual([])
+  })
+})
@@ -0,0 +1,116 @@
+import { FolderLayout } from './filenameTemplate'
+import { FailureKind } from './failures'
+import { ScreenFilter } from './screenFilter'
+import { OutputFormat } from './settings'
+
+export type JobSource = 'gallery' | 'dashboard'
+
+export type JobOutcome = 'completed' | 'failed' | 'cancelled' | 'interrupted'
+
+/** The normalized options a job ran with. */
+export interface JobSettingsSnapshot {
+  concurrency: number
+  throttleDelayMs: number
+  adaptive: boolean
+  retryAttempts: number
+  retryBaseDelayMs: number
+  timeoutMs: number
+  stallTimeoutMs: number
+  maxArchiveBytes: number
+  maxFilesPerArchive: number
+  outputFormat: OutputFormat
+  onlyNew: boolean
+  dedupe: boolean
+  dedupeAcrossRuns: boolean
+  embedMetadata: boolean
+  /** Name of the local folder written to instead of archives. */
+  folder?: string
+  filenameTemplate: string
+  folderLayout: FolderLayout
+  filter: ScreenFilter
+  resumeJobId?: string
+  supplementary: boolean
+}
+
+export interface JobOutputFile {
+  filename: string
+  downloadId?: number
+  files: number
+  bytes: number
+}
+
+export interface JobFailedScreen {
+  id36: string
+  kind: FailureKind
+  status?: number
+  reason: string
+}
+
+export interface JobHistoryEntry {
+  runId: string
+  source: JobSource
+  account?: string
+  startedAt: number
+  finishedAt: number
+  outcome: JobOutcome
+  settings?: JobSettingsSnapshot
+  total: number
+  processed: number
+  succeeded: number
+  failed: number
+  failedScreens: JobFailedScreen[]
+  outputs: JobOutputFile[]
+  message?: string
+}
+
+const JOB_HISTORY_KEY = 'lgd:history'
+const MAX_HISTORY_ENTRIES = 50
+const REPORT_VERSION = 1
+
+// jobs finishing together must not drop each other's entries
+let writes: Promise<unknown> = Promise.resolve()
+
+const write = (change: () => Promise<void>): Promise<void> => {
+  const next = writes.then(change)
+  writes = next.catch(() => {
+    // the next write starts from whatever was stored
+  })
+  return next
+}
+
+export const readJobHistory = async (): Promise<JobHistoryEntry[]> => {
+  const stored = await chrome.storage.local.get(JOB_HISTORY_KEY)
+  return normalizeHistory(stored[JOB_HISTORY_KEY])
+}
+
+/** Prepends `entry`, keeping the most recent entries only. */
+export const appendJobHistory = (entry: JobHistoryEntry): Promise<void> =>
+  write(async () => {
+    const history = await readJobHistory()
+    await chrome.storage.local.set({ [JOB_HISTORY_KEY]: [entry, ...history].slice(0, MAX_HISTORY_ENTRIES) })
+  })
+
+export const clearJobHistory = (): Promise<void> =>
+  write(async () => {
+    await chrome.storage.local.remove(JOB_HISTORY_KEY)
+  })
+
+export const onJobHistoryChanged = (listener: (history: JobHistoryEntry[]) => void) => {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local' || !(JOB_HISTORY_KEY in changes)) {
+      return
+    }
+    listener(normalizeHistory(changes[JOB_HISTORY_KEY].newValue))
+  })
+}
+
+const normalizeHistory = (value: unknown): JobHistoryEntry[] => (Array.isArray(value) ? value : [])
+
+/** Standalone JSON report of one job, as offered for download. */
+export const buildJobReport = (entry: JobHistoryEntry): string =>
+  JSON.stringify({ version: REPORT_VERSION, generatedAt: new Date().toISOString(), ...entry }, null, 2)
+
+export const jobReportFilename = (entry: JobHistoryEntry): string => {
+  const started = new Date(entry.startedAt).toISOString().replace(/[:.]/g, '-').slice(0, 19)
+  return `lightshot-job-${started}.json`
+}
@@ -0,0 +1,45 @@
+export interface PendingJobSummary {
+  id: string
+  total: number
+  completed: number
+  createdAt: number
+  updatedAt: number
+}
+
+const PENDING_JOBS_KEY = 'lgd:pendingJobs'
+
+// read-modify-write updates from concurrent jobs must not overwrite each other
+let updates: Promise<unknown> = Promise.resolve()
+
+const update = (change: (summaries: PendingJobSummary[]) => PendingJobSummary[]): Promise<void> => {
+  const next = updates.then(async () => {
+    await chrome.storage.local.set({ [PENDING_JOBS_KEY]: change(await readPendingJobs()) })
+  })
+  updates = next.catch(() => {
+    // the next update starts from whatever was stored
+  })
+  return next
+}
+
+/** Resumable jobs, most recently created first. */
+export const readPendingJobs = async (): Promise<PendingJobSummary[]> => {
+  const stored = await chrome.storage.local.get(PENDING_JOBS_KEY)
+  return (stored[PENDING_JOBS_KEY] as PendingJobSummary[] | undefined) ?? []
+}
+
+export const writePendingJob = (summary: PendingJobSummary): Promise<void> =>
+  update((summaries) =>
+    [summary, ...summaries.filter(({ id }) => id !== summary.id)].sort((a, b) => b.createdAt - a.createdAt)
+  )
+
+export const removePendingJob = (jobId: string): Promise<void> =>
+  update((summaries) => summaries.filter(({ id }) => id !== jobId))
+
+export const onPendingJobsChanged = (listener: (summaries: PendingJobSummary[]) => void) => {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local' || !(PENDING_JOBS_KEY in changes)) {
+      return
+    }
+    listener((changes[PENDING_JOBS_KEY].newValue as PendingJobSummary[] | undefined) ?? [])
+  })
+}
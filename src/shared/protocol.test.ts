@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { parseDashboardRequest, parseGalleryRequest, parseHello, PROTOCOL_VERSION } from './protocol'
+
+const SCREEN = { id36: 'abc', url: 'https://img.lightshot.app/abc.png', date: '2024-01-01' }
+
+describe('parseHello', () => {
+  it('accepts the current version', () => {
+    expect(parseHello({ type: 'hello', version: PROTOCOL_VERSION })).toEqual({
+      ok: true,
+      value: { type: 'hello', version: PROTOCOL_VERSION },
+    })
+  })
+
+  it.each([undefined, 'hello', { type: 'download' }, { version: PROTOCOL_VERSION }])(
+    'asks for a handshake first when given %j',
+    (message) => {
+      expect(parseHello(message)).toMatchObject({ ok: false, code: 'handshake_required' })
+    }
+  )
+
+  it.each([PROTOCOL_VERSION - 1, PROTOCOL_VERSION + 1, '2', undefined])('rejects version %j', (version) => {
+    const result = parseHello({ type: 'hello', version })
+    expect(result).toMatchObject({ ok: false, code: 'unsupported_version' })
+    expect(!result.ok && result.error).toContain('Reload the page')
+  })
+})
+
+describe('parseGalleryRequest', () => {
+  it('accepts a download with its settings and drops unknown fields', () => {
+    expect(
+      parseGalleryRequest({ type: 'download', screens: [SCREEN], account: 'me', concurrency: 4, onlyNew: true, extra: 1 })
+    ).toEqual({
+      ok: true,
+      value: { type: 'download', screens: [SCREEN], account: 'me', supplementary: undefined, concurrency: 4, onlyNew: true },
+    })
+  })
+
+  it.each([
+    ['a non-object', null, 'Request must be an object.'],
+    ['an unknown type', { type: 'explode' }, 'Unknown request type "explode".'],
+    ['a download without screens', { type: 'download', account: 'me' }, 'Download requests need a list of screenshots.'],
+    [
+      'a download with a broken screenshot',
+      { type: 'download', screens: [{ id36: 'abc' }], account: 'me' },
+      'Download requests need a list of screenshots.',
+    ],
+    ['a download without account', { type: 'download', screens: [] }, 'Download requests need an account.'],
+    [
+      'a setting of the wrong type',
+      { type: 'download', screens: [], account: 'me', concurrency: '4' },
+      'Invalid value for "concurrency".',
+    ],
+    ['a non-finite number', { type: 'continue', jobId: 'j', throttleMs: Infinity }, 'Invalid value for "throttleMs".'],
+    ['a continue without job', { type: 'continue' }, 'Missing job to resume.'],
+    ['a discard without job', { type: 'discard', jobId: '' }, 'Missing job to discard.'],
+    ['an attach with an empty run id', { type: 'attach', runId: '' }, 'Invalid value for "runId".'],
+  ])('rejects %s', (_, request, error) => {
+    expect(parseGalleryRequest(request)).toEqual({ ok: false, code: 'malformed_request', error })
+  })
+
+  it('accepts the job controls', () => {
+    expect(parseGalleryRequest({ type: 'continue', jobId: 'j', sequential: true })).toEqual({
+      ok: true,
+      value: { type: 'continue', jobId: 'j', sequential: true },
+    })
+    expect(parseGalleryRequest({ type: 'attach' })).toEqual({ ok: true, value: { type: 'attach', runId: undefined } })
+    expect(parseGalleryRequest({ type: 'pause', runId: 'ignored' })).toEqual({ ok: true, value: { type: 'pause' } })
+    expect(parseGalleryRequest({ type: 'discard', jobId: 'j' })).toEqual({ ok: true, value: { type: 'discard', jobId: 'j' } })
+  })
+})
+
+describe('parseDashboardRequest', () => {
+  it('accepts a start with its settings', () => {
+    expect(parseDashboardRequest({ type: 'start', settings: { dedupe: true, extra: 1 } })).toEqual({
+      ok: true,
+      value: { type: 'start', settings: { dedupe: true } },
+    })
+  })
+
+  it.each([
+    ['a start without settings', { type: 'start' }, 'Start requests need settings.'],
+    ['invalid settings', { type: 'start', settings: { filter: [] } }, 'Invalid value for "filter".'],
+    ['a control without run id', { type: 'pause' }, 'Missing run id for "pause".'],
+  ])('rejects %s', (_, request, error) => {
+    expect(parseDashboardRequest(request)).toEqual({ ok: false, code: 'malformed_request', error })
+  })
+})
@@ -0,0 +1,321 @@
+import { ScreenMeta } from '../domain/lightshotClient'
+import { FailedScreen } from './failures'
+import { JobSource } from './jobHistory'
+import { DownloadSettings, OutputFormat } from './settings'
+
+/**
+ * Messages exchanged over runtime ports between the background worker and
+ * extension pages (the gallery content script and the dashboard). Both sides
+ * import their types from here; requests are validated at runtime by the
+ * worker, which answers malformed ones with an `error` reply.
+ *
+ * Every port opens with a `hello` carrying PROTOCOL_VERSION. The worker answers
+ * `welcome`, or an `unsupported_version` error followed by a disconnect.
+ */
+export const PROTOCOL_VERSION = 2
+
+export const GALLERY_PORT_NAME = 'lightshot-download'
+export const DASHBOARD_PORT_NAME = 'lightshot-dashboard'
+
+export interface HelloMessage {
+  type: 'hello'
+  version: number
+}
+
+export interface WelcomeMessage {
+  type: 'welcome'
+  version: number
+}
+
+export type ProtocolErrorCode = 'unsupported_version' | 'handshake_required' | 'malformed_request' | 'busy' | 'not_found'
+
+export interface ErrorMessage {
+  type: 'error'
+  message: string
+  /** Set for protocol and scheduling errors; job failures carry only a message. */
+  code?: ProtocolErrorCode
+}
+
+/** Download settings as sent by a page; the worker clamps every value again. */
+export type RequestSettings = Partial<DownloadSettings>
+
+export type GalleryRequest =
+  | ({ type: 'download'; screens: ScreenMeta[]; account: string; supplementary?: boolean } & RequestSettings)
+  /** Continues an interrupted job from its journal. */
+  | ({ type: 'continue'; jobId: string } & RequestSettings)
+  /** Deletes an interrupted job instead of resuming it; the worker closes the port when done. */
+  | { type: 'discard'; jobId: string }
+  /** Follows a job started elsewhere: the given one, or the most recently queued. */
+  | { type: 'attach'; runId?: string }
+  /** Pause, resume, and cancel act on the job this tab started or attached to. */
+  | { type: 'pause' | 'resume' | 'cancel' }
+
+export type FolderWriteResult = 'written' | 'skipped'
+
+export type DashboardRequest =
+  /** `folder` names the directory this page holds; files are then written there instead of zipped. */
+  | { type: 'start'; settings: RequestSettings; folder?: string }
+  | { type: 'pause' | 'resume' | 'cancel'; runId: string }
+  | { type: 'folder-written'; requestId: string; result?: FolderWriteResult; error?: string }
+
+export interface RateSnapshot {
+  concurrency: number
+  delayMs: number
+  /** Completed requests per minute over the sliding window. */
+  requestsPerMinute: number
+  /** Smoothed response latency in milliseconds. */
+  latencyMs: number
+  pausedUntil?: number
+}
+
+/** Progress reported by a running job, in the order the download service emits it. */
+export type JobMessage =
+  | { type: 'start'; total: number; concurrency: number; resumed?: number }
+  | {
+      type: 'progress'
+      phase?: 'downloading' | 'packaging'
+      completed: number
+      total: number
+      currentId: string
+      succeeded?: number
+      failed?: number
+      bytes?: number
+    }
+  | { type: 'status'; message: string }
+  | { type: 'log'; level: 'info' | 'warn'; message: string }
+  | ({ type: 'rate' } & RateSnapshot)
+  | { type: 'volume'; index: number; count: number; filename: string; files: number; bytes: number; downloadId?: number }
+  | {
+      type: 'done'
+      total: number
+      failed: number
+      processed?: number
+      succeeded?: number
+      duplicates?: number
+      downloadId?: number
+      downloadIds?: number[]
+      failures?: FailedScreen[]
+      /** Where the files went: the output format, or the local folder that took precedence over it. */
+      outputFormat?: OutputFormat
+      folder?: string
+    }
+  | { type: 'paused'; paused: boolean }
+  | ErrorMessage
+  | { type: 'cancelled' }
+
+export type GalleryMessage = WelcomeMessage | { type: 'attached'; runId: string } | JobMessage
+
+export type JobState = 'queued' | 'running' | 'paused'
+
+export interface ActiveJobSummary {
+  runId: string
+  source: JobSource
+  /** When the job was queued. */
+  startedAt: number
+  state: JobState
+  status: string
+  phase: 'collecting' | 'downloading' | 'packaging'
+  completed: number
+  total: number
+  failed: number
+}
+
+export type DashboardMessage =
+  | WelcomeMessage
+  | { type: 'jobs'; jobs: ActiveJobSummary[] }
+  | { type: 'log'; runId: string; level: 'info' | 'warn'; message: string }
+  /**
+   * Asks the page holding the export folder to write a file. The data waits in
+   * the exports store under `requestId`; existing files with the same size and
+   * hash are skipped.
+   */
+  | { type: 'folder-write'; requestId: string; path: string; size: number; sha256: string }
+  | ErrorMessage
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; code: ProtocolErrorCode; error: string }
+
+type FieldCheck = (value: unknown) => boolean
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value)
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean'
+const isString: FieldCheck = (value) => typeof value === 'string'
+const isNonEmptyString: FieldCheck = (value) => typeof value === 'string' && value.length > 0
+
+// keyed by DownloadSettings so a new setting cannot be added without a check
+const SETTINGS_FIELDS: Record<keyof DownloadSettings, FieldCheck> = {
+  concurrency: isNumber,
+  sequential: isBoolean,
+  throttleMs: isNumber,
+  adaptive: isBoolean,
+  retryAttempts: isNumber,
+  retryBaseDelayMs: isNumber,
+  timeoutSeconds: isNumber,
+  stallTimeoutSeconds: isNumber,
+  maxArchiveMb: isNumber,
+  maxFilesPerArchive: isNumber,
+  outputFormat: isString,
+  onlyNew: isBoolean,
+  dedupe: isBoolean,
+  dedupeAcrossRuns: isBoolean,
+  embedMetadata: isBoolean,
+  filenameTemplate: isString,
+  folderLayout: isString,
+  filter: isRecord,
+  pick: isBoolean,
+}
+
+const isScreenMeta: FieldCheck = (value) =>
+  isRecord(value) && isNonEmptyString(value.id36) && isNonEmptyString(value.url) && isString(value.date)
+
+const malformed = <T>(error: string): ParseResult<T> => ({ ok: false, code: 'malformed_request', error })
+
+/** Checks the optional settings fields of a request; absent fields are fine. */
+const checkSettings = (raw: Record<string, unknown>): string | null => {
+  for (const [key, check] of Object.entries(SETTINGS_FIELDS)) {
+    if (raw[key] !== undefined && !check(raw[key])) {
+      return `Invalid value for "${key}".`
+    }
+  }
+  return null
+}
+
+const pickSettings = (raw: Record<string, unknown>): RequestSettings =>
+  Object.fromEntries(
+    Object.keys(SETTINGS_FIELDS).filter((key) => raw[key] !== undefined).map((key) => [key, raw[key]])
+  ) as RequestSettings
+
+export const parseHello = (value: unknown): ParseResult<HelloMessage> => {
+  if (!isRecord(value) || value.type !== 'hello') {
+    return { ok: false, code: 'handshake_required', error: 'Expected a hello message first.' }
+  }
+  if (value.version !== PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      code: 'unsupported_version',
+      error: `Protocol version ${String(value.version)} is not supported (expected ${PROTOCOL_VERSION}). Reload the page.`,
+    }
+  }
+  return { ok: true, value: { type: 'hello', version: PROTOCOL_VERSION } }
+}
+
+export const parseGalleryRequest = (value: unknown): ParseResult<GalleryRequest> => {
+  if (!isRecord(value)) {
+    return malformed('Request must be an object.')
+  }
+
+  switch (value.type) {
+    case 'download': {
+      if (!Array.isArray(value.screens) || !value.screens.every(isScreenMeta)) {
+        return malformed('Download requests need a list of screenshots.')
+      }
+      if (!isString(value.account)) {
+        return malformed('Download requests need an account.')
+      }
+      if (value.supplementary !== undefined && !isBoolean(value.supplementary)) {
+        return malformed('Invalid value for "supplementary".')
+      }
+      const error = checkSettings(value)
+      if (error) {
+        return malformed(error)
+      }
+      return {
+        ok: true,
+        value: {
+          ...pickSettings(value),
+          type: 'download',
+          screens: value.screens as ScreenMeta[],
+          account: value.account as string,
+          supplementary: value.supplementary as boolean | undefined,
+        },
+      }
+    }
+    case 'continue': {
+      if (!isNonEmptyString(value.jobId)) {
+        return malformed('Missing job to resume.')
+      }
+      const error = checkSettings(value)
+      if (error) {
+        return malformed(error)
+      }
+      return { ok: true, value: { ...pickSettings(value), type: 'continue', jobId: value.jobId as string } }
+    }
+    case 'discard':
+      if (!isNonEmptyString(value.jobId)) {
+        return malformed('Missing job to discard.')
+      }
+      return { ok: true, value: { type: 'discard', jobId: value.jobId as string } }
+    case 'attach':
+      if (value.runId !== undefined && !isNonEmptyString(value.runId)) {
+        return malformed('Invalid value for "runId".')
+      }
+      return { ok: true, value: { type: 'attach', runId: value.runId as string | undefined } }
+    case 'pause':
+    case 'resume':
+    case 'cancel':
+      return { ok: true, value: { type: value.type } }
+    default:
+      return malformed(`Unknown request type "${String(value.type)}".`)
+  }
+}
+
+export const parseDashboardRequest = (value: unknown): ParseResult<DashboardRequest> => {
+  if (!isRecord(value)) {
+    return malformed('Request must be an object.')
+  }
+
+  switch (value.type) {
+    case 'start': {
+      if (!isRecord(value.settings)) {
+        return malformed('Start requests need settings.')
+      }
+      const error = checkSettings(value.settings)
+      if (error) {
+        return malformed(error)
+      }
+      if (value.folder !== undefined && !isNonEmptyString(value.folder)) {
+        return malformed('Invalid value for "folder".')
+      }
+      return {
+        ok: true,
+        value: { type: 'start', settings: pickSettings(value.settings), folder: value.folder as string | undefined },
+      }
+    }
+    case 'folder-written':
+      if (!isNonEmptyString(value.requestId)) {
+        return malformed('Missing request id for "folder-written".')
+      }
+      if (value.result !== undefined && value.result !== 'written' && value.result !== 'skipped') {
+        return malformed('Invalid value for "result".')
+      }
+      if (value.error !== undefined && !isString(value.error)) {
+        return malformed('Invalid value for "error".')
+      }
+      return {
+        ok: true,
+        value: {
+          type: 'folder-written',
+          requestId: value.requestId as string,
+          result: value.result as FolderWriteResult | undefined,
+          error: value.error as string | undefined,
+        },
+      }
+    case 'pause':
+    case 'resume':
+    case 'cancel':
+      if (!isNonEmptyString(value.runId)) {
+        return malformed(`Missing run id for "${value.type}".`)
+      }
+      return { ok: true, value: { type: value.type, runId: value.runId as string } }
+    default:
+      return malformed(`Unknown request type "${String(value.type)}".`)
+  }
+}
+
+/** Opens a port to the background worker and starts the version handshake. */
+export const connectToBackground = (name: typeof GALLERY_PORT_NAME | typeof DASHBOARD_PORT_NAME): chrome.runtime.Port => {
+  const port = chrome.runtime.connect({ name })
+  port.postMessage({ type: 'hello', version: PROTOCOL_VERSION } satisfies HelloMessage)
+  return port
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { ScreenMeta } from '../domain/lightshotClient'
+import {
+  applyScreenFilter,
+  describeScreenFilter,
+  hasActiveFilter,
+  isBeforeDateWindow,
+  normalizeScreenFilter,
+} from './screenFilter'
+
+const screen = (id36: string, date: string): ScreenMeta => ({ id36, url: `https://img.lightshot.app/${id36}.png`, date })
+
+// newest first, like the gallery listing; dates have no zone so they are local time
+const SCREENS = [
+  screen('d4', '2024-03-10T23:59:59'),
+  screen('c3', '2024-03-10T00:00:00'),
+  screen('b2', '2024-03-09T23:59:59'),
+  screen('a1', '2024-03-01T12:00:00'),
+]
+
+const ids = (screens: ScreenMeta[]) => screens.map(({ id36 }) => id36)
+
+describe('normalizeScreenFilter', () => {
+  it('keeps only well-formed values', () => {
+    expect(
+      normalizeScreenFilter({
+        fromDate: '2024-03-01',
+        toDate: '03/10/2024',
+        fromId36: ' B2 ',
+        toId36: 'not an id',
+        maxCount: '2.7',
+        mostRecent: 0,
+      })
+    ).toEqual({ fromDate: '2024-03-01', fromId36: 'b2', maxCount: 2 })
+  })
+
+  it('treats anything that is not an object as no filter', () => {
+    expect(normalizeScreenFilter(null)).toEqual({})
+    expect(normalizeScreenFilter('2024-03-01')).toEqual({})
+  })
+})
+
+describe('describeScreenFilter', () => {
+  it('lists the active parts', () => {
+    expect(describeScreenFilter({ fromDate: '2024-03-01', toId36: 'zz', mostRecent: 5, maxCount: 3 })).toBe(
+      'dates 2024-03-01 → …, ids … → zz, 5 most recent, at most 3'
+    )
+    expect(hasActiveFilter({})).toBe(false)
+  })
+})
+
+describe('applyScreenFilter', () => {
+  it('returns the screens as they are without a filter', () => {
+    expect(applyScreenFilter(SCREENS, {})).toBe(SCREENS)
+  })
+
+  it('includes whole days at both ends of the date range', () => {
+    expect(ids(applyScreenFilter(SCREENS, { fromDate: '2024-03-10', toDate: '2024-03-10' }))).toEqual(['d4', 'c3'])
+    expect(ids(applyScreenFilter(SCREENS, { toDate: '2024-03-09' }))).toEqual(['b2', 'a1'])
+  })
+
+  it('compares ids as base-36 numbers', () => {
+    const screens = [screen('z', '2024-03-01'), screen('10', '2024-03-01'), screen('9', '2024-03-01')]
+    expect(ids(applyScreenFilter(screens, { fromId36: 'a', toId36: '10' }))).toEqual(['z', '10'])
+  })
+
+  it('drops screenshots without a usable date when filtering by date', () => {
+    expect(ids(applyScreenFilter([screen('x', 'unknown'), ...SCREENS], { fromDate: '2024-01-01' }))).not.toContain('x')
+  })
+
+  it('keeps the most recent matches before capping the count', () => {
+    const shuffled = [SCREENS[2], SCREENS[0], SCREENS[3], SCREENS[1]]
+    expect(ids(applyScreenFilter(shuffled, { mostRecent: 3, maxCount: 2 }))).toEqual(['d4', 'c3'])
+    expect(ids(applyScreenFilter(shuffled, { maxCount: 2 }))).toEqual(['b2', 'd4'])
+  })
+})
+
+describe('isBeforeDateWindow', () => {
+  it('is true only for screenshots older than the start date', () => {
+    expect(isBeforeDateWindow(SCREENS[1], { fromDate: '2024-03-10' })).toBe(false)
+    expect(isBeforeDateWindow(SCREENS[2], { fromDate: '2024-03-10' })).toBe(true)
+    expect(isBeforeDateWindow(SCREENS[3], { toDate: '2024-03-10' })).toBe(false)
+  })
+})
@@ -0,0 +1,166 @@
+import { parseLightshotDate, ScreenMeta } from '../domain/lightshotClient'
+
+export interface ScreenFilter {
+  /** Inclusive lower bound, `YYYY-MM-DD` in local time. */
+  fromDate?: string
+  /** Inclusive upper bound, `YYYY-MM-DD` in local time. */
+  toDate?: string
+  fromId36?: string
+  toId36?: string
+  /** Keeps the first N matches in gallery order. */
+  maxCount?: number
+  /** Keeps the N most recently created matches. */
+  mostRecent?: number
+}
+
+const DATE_INPUT_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const ID36_PATTERN = /^[0-9a-z]+$/i
+
+export const normalizeScreenFilter = (value: unknown): ScreenFilter => {
+  if (!value || typeof value !== 'object') {
+    return {}
+  }
+
+  const raw = value as Record<string, unknown>
+  const filter: ScreenFilter = {}
+
+  if (typeof raw.fromDate === 'string' && DATE_INPUT_PATTERN.test(raw.fromDate)) {
+    filter.fromDate = raw.fromDate
+  }
+  if (typeof raw.toDate === 'string' && DATE_INPUT_PATTERN.test(raw.toDate)) {
+    filter.toDate = raw.toDate
+  }
+  if (typeof raw.fromId36 === 'string' && ID36_PATTERN.test(raw.fromId36.trim())) {
+    filter.fromId36 = raw.fromId36.trim().toLowerCase()
+  }
+  if (typeof raw.toId36 === 'string' && ID36_PATTERN.test(raw.toId36.trim())) {
+    filter.toId36 = raw.toId36.trim().toLowerCase()
+  }
+
+  const maxCount = toPositiveInteger(raw.maxCount)
+  if (maxCount) {
+    filter.maxCount = maxCount
+  }
+  const mostRecent = toPositiveInteger(raw.mostRecent)
+  if (mostRecent) {
+    filter.mostRecent = mostRecent
+  }
+
+  return filter
+}
+
+export const hasActiveFilter = (filter: ScreenFilter): boolean => Object.keys(filter).length > 0
+
+export const describeScreenFilter = (filter: ScreenFilter): string => {
+  const parts: string[] = []
+  if (filter.fromDate || filter.toDate) {
+    parts.push(`dates ${filter.fromDate ?? '…'} → ${filter.toDate ?? '…'}`)
+  }
+  if (filter.fromId36 || filter.toId36) {
+    parts.push(`ids ${filter.fromId36 ?? '…'} → ${filter.toId36 ?? '…'}`)
+  }
+  if (filter.mostRecent) {
+    parts.push(`${filter.mostRecent} most recent`)
+  }
+  if (filter.maxCount) {
+    parts.push(`at most ${filter.maxCount}`)
+  }
+  return parts.join(', ')
+}
+
+/**
+ * True once a screenshot is older than the requested window. The gallery is
+ * listed newest first, so pagination can stop at the first such screenshot.
+ */
+export const isBeforeDateWindow = (screen: ScreenMeta, filter: ScreenFilter): boolean => {
+  const from = startOfDay(filter.fromDate)
+  if (from === undefined) {
+    return false
+  }
+
+  const created = screenTimestamp(screen)
+  return created !== undefined && created < from
+}
+
+export const applyScreenFilter = (screens: ScreenMeta[], filter: ScreenFilter): ScreenMeta[] => {
+  if (!hasActiveFilter(filter)) {
+    return screens
+  }
+
+  const from = startOfDay(filter.fromDate)
+  const to = endOfDay(filter.toDate)
+  const fromId = filter.fromId36 ? parseId36(filter.fromId36) : undefined
+  const toId = filter.toId36 ? parseId36(filter.toId36) : undefined
+
+  let matches = screens.filter((screen) => {
+    if (from !== undefined || to !== undefined) {
+      const created = screenTimestamp(screen)
+      if (created === undefined) {
+        return false
+      }
+      if ((from !== undefined && created < from) || (to !== undefined && created > to)) {
+        return false
+      }
+    }
+
+    if (fromId !== undefined || toId !== undefined) {
+      const id = parseId36(screen.id36)
+      if (id === undefined) {
+        return false
+      }
+      if ((fromId !== undefined && id < fromId) || (toId !== undefined && id > toId)) {
+        return false
+      }
+    }
+
+    return true
+  })
+
+  if (filter.mostRecent) {
+    matches = [...matches]
+      .sort((a, b) => (screenTimestamp(b) ?? 0) - (screenTimestamp(a) ?? 0))
+      .slice(0, filter.mostRecent)
+  }
+
+  if (filter.maxCount) {
+    matches = matches.slice(0, filter.maxCount)
+  }
+
+  return matches
+}
+
+const screenTimestamp = (screen: ScreenMeta): number | undefined =>
+  parseLightshotDate(screen.created_at ?? screen.date)?.getTime()
+
+const startOfDay = (value?: string): number | undefined => {
+  if (!value) {
+    return undefined
+  }
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day).getTime()
+}
+
+const endOfDay = (value?: string): number | undefined => {
+  if (!value) {
+    return undefined
+  }
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day + 1).getTime() - 1
+}
+
+const parseId36 = (value: string): bigint | undefined => {
+  if (!ID36_PATTERN.test(value)) {
+    return undefined
+  }
+
+  let result = 0n
+  for (const char of value.toLowerCase()) {
+    result = result * 36n + BigInt(parseInt(char, 36))
+  }
+  return result
+}
+
+const toPositiveInteger = (value: unknown): number | undefined => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 1 ? Math.floor(parsed) : undefined
+}
@@ -0,0 +1,211 @@
+import { DEFAULT_FILENAME_TEMPLATE, FolderLayout, normalizeNaming } from './filenameTemplate'
+import { normalizeScreenFilter, ScreenFilter } from './screenFilter'
+
+/**
+ * How an export is delivered: one archive (ZIP volumes when a limit is set),
+ * or loose files. `zip-store` skips compression, which screenshots barely
+ * benefit from, and packages much faster.
+ */
+export type OutputFormat = 'zip' | 'zip-store' | 'tar' | 'files'
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['zip', 'zip-store', 'tar', 'files']
+
+/** Everything the panel lets the user configure for a download. */
+export interface DownloadSettings {
+  concurrency: number
+  sequential: boolean
+  throttleMs: number
+  adaptive: boolean
+  retryAttempts: number
+  retryBaseDelayMs: number
+  timeoutSeconds: number
+  stallTimeoutSeconds: number
+  maxArchiveMb: number
+  maxFilesPerArchive: number
+  outputFormat: OutputFormat
+  onlyNew: boolean
+  dedupe: boolean
+  dedupeAcrossRuns: boolean
+  embedMetadata: boolean
+  filenameTemplate: string
+  folderLayout: FolderLayout
+  filter: ScreenFilter
+  pick: boolean
+}
+
+export const PRESET_KEYS = [
+  'concurrency',
+  'sequential',
+  'throttleMs',
+  'adaptive',
+  'retryAttempts',
+  'retryBaseDelayMs',
+  'timeoutSeconds',
+  'stallTimeoutSeconds',
+  'filenameTemplate',
+  'folderLayout',
+  'filter',
+] as const satisfies readonly (keyof DownloadSettings)[]
+
+export type PresetSettings = Pick<DownloadSettings, (typeof PRESET_KEYS)[number]>
+
+export interface DownloadPreset {
+  name: string
+  settings: PresetSettings
+  builtIn?: boolean
+}
+
+const SETTINGS_STORAGE_KEY = 'lgd:settings'
+const PRESET_STORAGE_PREFIX = 'lgd:preset:'
+const MAX_PRESET_NAME_LENGTH = 40
+
+const NUMBER_KEYS = [
+  'concurrency',
+  'throttleMs',
+  'retryAttempts',
+  'retryBaseDelayMs',
+  'timeoutSeconds',
+  'stallTimeoutSeconds',
+  'maxArchiveMb',
+  'maxFilesPerArchive',
+] as const
+const BOOLEAN_KEYS = ['sequential', 'adaptive', 'onlyNew', 'dedupe', 'dedupeAcrossRuns', 'embedMetadata', 'pick'] as const
+
+export const DEFAULT_SETTINGS: DownloadSettings = {
+  concurrency: 4,
+  sequential: true,
+  throttleMs: 150,
+  adaptive: false,
+  retryAttempts: 3,
+  retryBaseDelayMs: 500,
+  timeoutSeconds: 30,
+  stallTimeoutSeconds: 15,
+  maxArchiveMb: 0,
+  maxFilesPerArchive: 0,
+  outputFormat: 'zip',
+  onlyNew: false,
+  dedupe: false,
+  dedupeAcrossRuns: false,
+  embedMetadata: false,
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  folderLayout: 'flat',
+  filter: {},
+  pick: false,
+}
+
+export const BUILT_IN_PRESETS: DownloadPreset[] = [
+  {
+    name: 'Fast small gallery',
+    builtIn: true,
+    settings: {
+      concurrency: 6,
+      sequential: false,
+      throttleMs: 0,
+      adaptive: true,
+      retryAttempts: 3,
+      retryBaseDelayMs: 500,
+      timeoutSeconds: 30,
+      stallTimeoutSeconds: 15,
+      filenameTemplate: 'screenshot_{id36}.{ext}',
+      folderLayout: 'flat',
+      filter: {},
+    },
+  },
+  {
+    name: 'Safe overnight',
+    builtIn: true,
+    settings: {
+      concurrency: 2,
+      sequential: true,
+      throttleMs: 500,
+      adaptive: false,
+      retryAttempts: 6,
+      retryBaseDelayMs: 2000,
+      timeoutSeconds: 60,
+      stallTimeoutSeconds: 30,
+      filenameTemplate: '{date:YYYY-MM-DD HH.mm.ss}_{id36}.{ext}',
+      folderLayout: 'year-month',
+      filter: {},
+    },
+  },
+]
+
+/**
+ * Keeps only well-typed values from stored settings. Range checks are left to
+ * the panel inputs and the background worker, which clamp everything anyway.
+ */
+export const normalizeSettings = (value: unknown): Partial<DownloadSettings> => {
+  if (!value || typeof value !== 'object') {
+    return {}
+  }
+
+  const raw = value as Record<string, unknown>
+  const settings: Partial<DownloadSettings> = {}
+
+  NUMBER_KEYS.forEach((key) => {
+    const parsed = raw[key]
+    if (typeof parsed === 'number' && Number.isFinite(parsed)) {
+      settings[key] = parsed
+    }
+  })
+  BOOLEAN_KEYS.forEach((key) => {
+    if (typeof raw[key] === 'boolean') {
+      settings[key] = raw[key]
+    }
+  })
+
+  if ('filenameTemplate' in raw || 'folderLayout' in raw) {
+    const naming = normalizeNaming({ template: raw.filenameTemplate, folderLayout: raw.folderLayout })
+    settings.filenameTemplate = naming.template
+    settings.folderLayout = naming.folderLayout
+  }
+  if (OUTPUT_FORMATS.includes(raw.outputFormat as OutputFormat)) {
+    settings.outputFormat = raw.outputFormat as OutputFormat
+  }
+  if ('filter' in raw) {
+    settings.filter = normalizeScreenFilter(raw.filter)
+  }
+
+  return settings
+}
+
+export const pickPresetSettings = (settings: DownloadSettings): PresetSettings =>
+  Object.fromEntries(PRESET_KEYS.map((key) => [key, settings[key]])) as PresetSettings
+
+export const readSettings = async (): Promise<Partial<DownloadSettings>> => {
+  const stored = await chrome.storage.sync.get(SETTINGS_STORAGE_KEY)
+  return stored[SETTINGS_STORAGE_KEY] ? normalizeSettings(stored[SETTINGS_STORAGE_KEY]) : {}
+}
+
+export const writeSettings = async (settings: DownloadSettings): Promise<void> => {
+  await chrome.storage.sync.set({ [SETTINGS_STORAGE_KEY]: settings })
+}
+
+/** Built-in presets followed by the user's, a saved preset shadowing a built-in one with the same name. */
+export const listPresets = async (): Promise<DownloadPreset[]> => {
+  const stored = await chrome.storage.sync.get(null)
+  const saved = Object.entries(stored)
+    .filter(([key]) => key.startsWith(PRESET_STORAGE_PREFIX))
+    .map(([key, value]) => ({
+      name: key.slice(PRESET_STORAGE_PREFIX.length),
+      settings: normalizeSettings(value) as PresetSettings,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  const savedNames = new Set(saved.map((preset) => preset.name))
+  return [...BUILT_IN_PRESETS.filter((preset) => !savedNames.has(preset.name)), ...saved]
+}
+
+export const normalizePresetName = (name: string): string => name.trim().replace(/\s+/g, ' ').slice(0, MAX_PRESET_NAME_LENGTH)
+
+export const savePreset = async (name: string, settings: PresetSettings): Promise<void> => {
+  const presetName = normalizePresetName(name)
+  if (!presetName) {
+    throw new Error('Preset name cannot be empty.')
+  }
+  await chrome.storage.sync.set({ [`${PRESET_STORAGE_PREFIX}${presetName}`]: settings })
+}
+
+export const deletePreset = async (name: string): Promise<void> => {
+  await chrome.storage.sync.remove(`${PRESET_STORAGE_PREFIX}${name}`)
+}
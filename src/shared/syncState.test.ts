@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ScreenMeta } from '../domain/lightshotClient'
+import { stubChromeStorage } from '../test/chromeStorage'
+import { readSyncState, recordExport, SyncState, withPreviousFailures } from './syncState'
+
+const screen = (id36: string): ScreenMeta => ({ id36, url: `https://img.lightshot.app/${id36}.png`, date: '2024-01-01' })
+
+const ids = (screens: ScreenMeta[]) => screens.map(({ id36 }) => id36)
+
+describe('recordExport', () => {
+  beforeEach(() => {
+    stubChromeStorage()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('starts the state with the exported ids and the newest as cursor', async () => {
+    await recordExport('me', ['c', 'b', 'a'])
+
+    expect(await readSyncState('me')).toMatchObject({ ids: ['c', 'b', 'a'], lastCursor: 'c' })
+    expect(await readSyncState('someone else')).toBeNull()
+  })
+
+  it('adds later exports and moves the cursor to their newest id', async () => {
+    await recordExport('me', ['b', 'a'])
+    const state = await recordExport('me', ['d', 'c'])
+
+    expect(state.ids).toEqual(['b', 'a', 'd', 'c'])
+    expect(state.lastCursor).toBe('d')
+  })
+
+  it('keeps the cursor when nothing was exported', async () => {
+    await recordExport('me', ['b', 'a'])
+    expect((await recordExport('me', [])).lastCursor).toBe('b')
+  })
+
+  it('keeps the id an existing hash was first exported as', async () => {
+    await recordExport('me', ['a'], { h1: 'a' })
+    const state = await recordExport('me', ['b', 'c'], { h1: 'b', h2: 'c' })
+    expect(state.hashes).toEqual({ h1: 'a', h2: 'c' })
+  })
+
+  it('remembers failures until a later run exports them', async () => {
+    await recordExport('me', ['c'], undefined, [screen('b'), screen('a')])
+    expect(ids((await readSyncState('me'))?.failed ?? [])).toEqual(['b', 'a'])
+
+    const state = await recordExport('me', ['b'])
+    expect(ids(state.failed ?? [])).toEqual(['a'])
+    expect((await recordExport('me', ['a'])).failed).toBeUndefined()
+  })
+
+  it('keeps the ids of exports recorded at the same time', async () => {
+    await Promise.all([recordExport('me', ['a']), recordExport('me', ['b']), recordExport('other', ['c'])])
+
+    expect((await readSyncState('me'))?.ids).toEqual(['a', 'b'])
+    expect((await readSyncState('other'))?.ids).toEqual(['c'])
+  })
+})
+
+describe('withPreviousFailures', () => {
+  const state: SyncState = { ids: ['b', 'a'], lastCursor: 'b', lastSyncAt: 0, failed: [screen('x'), screen('y')] }
+
+  it('returns the new screenshots followed by earlier failures', () => {
+    expect(ids(withPreviousFailures([screen('d'), screen('c')], state))).toEqual(['d', 'c', 'x', 'y'])
+  })
+
+  it('skips screenshots that were exported already', () => {
+    expect(ids(withPreviousFailures([screen('c'), screen('b')], state))).toEqual(['c', 'x', 'y'])
+  })
+
+  it('lists a failure once when it is also among the new screenshots', () => {
+    expect(ids(withPreviousFailures([screen('y'), screen('c')], state))).toEqual(['y', 'c', 'x'])
+  })
+})
@@ -0,0 +1,97 @@
+import { ScreenMeta } from '../domain/lightshotClient'
+
+export interface SyncState {
+  ids: string[]
+  /** id36 of the newest exported screenshot; incremental runs stop paginating once they reach it. */
+  lastCursor?: string
+  lastSyncAt: number
+  /** SHA-256 of exported content mapped to the id36 it was exported as; only kept when dedup across runs is on. */
+  hashes?: Record<string, string>
+  /**
+   * Screenshots a run could not export. They may sit past `lastCursor`, so
+   * incremental runs add them back until one exports them.
+   */
+  failed?: ScreenMeta[]
+}
+
+const SYNC_STATE_PREFIX = 'lgd:sync:'
+
+const storageKey = (account: string) => `${SYNC_STATE_PREFIX}${account}`
+
+// the last queued write of each account; read-modify-write updates run one at a time
+const pendingExports = new Map<string, Promise<void>>()
+
+export const readSyncState = async (account: string): Promise<SyncState | null> => {
+  const key = storageKey(account)
+  const stored = await chrome.storage.local.get(key)
+  return (stored[key] as SyncState | undefined) ?? null
+}
+
+/**
+ * Merges freshly exported ids into the account's sync state. `exportedIds` is
+ * expected newest first, matching the gallery order. `exportedHashes` (hash to
+ * id36) is merged too when given; existing hashes keep their original id.
+ * `failedScreens` are remembered until a later run exports them.
+ */
+export const recordExport = (
+  account: string,
+  exportedIds: string[],
+  exportedHashes?: Record<string, string>,
+  failedScreens: ScreenMeta[] = []
+): Promise<SyncState> => {
+  // jobs of the same account finishing together must not drop each other's ids
+  const next = (pendingExports.get(account) ?? Promise.resolve()).then(() =>
+    mergeExport(account, exportedIds, exportedHashes, failedScreens)
+  )
+  const settled: Promise<void> = next
+    .catch(() => {
+      // the next export starts from whatever was stored
+    })
+    .then(() => {
+      if (pendingExports.get(account) === settled) {
+        pendingExports.delete(account)
+      }
+    })
+  pendingExports.set(account, settled)
+  return next
+}
+
+const mergeExport = async (
+  account: string,
+  exportedIds: string[],
+  exportedHashes: Record<string, string> | undefined,
+  failedScreens: ScreenMeta[]
+): Promise<SyncState> => {
+  const previous = await readSyncState(account)
+  const ids = new Set(previous?.ids ?? [])
+  exportedIds.forEach((id) => ids.add(id))
+
+  const failed = new Map<string, ScreenMeta>()
+  for (const screen of [...(previous?.failed ?? []), ...failedScreens]) {
+    if (!ids.has(screen.id36)) {
+      failed.set(screen.id36, screen)
+    }
+  }
+
+  const state: SyncState = {
+    ids: [...ids],
+    lastCursor: exportedIds[0] ?? previous?.lastCursor,
+    lastSyncAt: Date.now(),
+    hashes: exportedHashes ? { ...exportedHashes, ...previous?.hashes } : previous?.hashes,
+    failed: failed.size ? [...failed.values()] : undefined,
+  }
+
+  await chrome.storage.local.set({ [storageKey(account)]: state })
+  return state
+}
+
+/**
+ * Screenshots an incremental run exports: the new ones (`screens`, collected
+ * up to the cursor) followed by earlier failures that are not among them.
+ */
+export const withPreviousFailures = (screens: ScreenMeta[], state: SyncState): ScreenMeta[] => {
+  const known = new Set(state.ids)
+  const listed = new Set(screens.map(({ id36 }) => id36))
+  const newScreens = screens.filter(({ id36 }) => !known.has(id36))
+  return [...newScreens, ...(state.failed ?? []).filter(({ id36 }) => !listed.has(id36) && !known.has(id36))]
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { createThrottler } from './throttler'
+
+interface Deferred {
+  promise: Promise<void>
+  resolve: () => void
+}
+
+const deferred = (): Deferred => {
+  let resolve!: () => void
+  const promise = new Promise<void>((done) => {
+    resolve = done
+  })
+  return { promise, resolve }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+/** Queues `count` tasks that each wait for their own deferred; returns the start order. */
+const queueTasks = (throttle: ReturnType<typeof createThrottler>, count: number) => {
+  const started: number[] = []
+  const gates = Array.from({ length: count }, deferred)
+  const results = gates.map((gate, index) =>
+    throttle(async () => {
+      started.push(index)
+      await gate.promise
+      return index
+    })
+  )
+  return { started, gates, results }
+}
+
+describe('createThrottler', () => {
+  it('rejects invalid limits', () => {
+    expect(() => createThrottler(0)).toThrow('positive integer')
+    expect(() => createThrottler(1).setMaxConcurrency(1.5)).toThrow('positive integer')
+  })
+
+  it('runs at most maxConcurrency tasks at once, in order', async () => {
+    const throttle = createThrottler(2)
+    const { started, gates, results } = queueTasks(throttle, 4)
+
+    expect(started).toEqual([0, 1])
+    expect(throttle.activeCount).toBe(2)
+
+    gates[1].resolve()
+    await flush()
+    expect(started).toEqual([0, 1, 2])
+
+    gates.forEach((gate) => gate.resolve())
+    expect(await Promise.all(results)).toEqual([0, 1, 2, 3])
+    await flush()
+    expect(throttle.activeCount).toBe(0)
+  })
+
+  it('frees the slot of a failed task', async () => {
+    const throttle = createThrottler(1)
+    const failing = throttle(() => Promise.reject(new Error('boom')))
+    const next = throttle(async () => 'next')
+
+    await expect(failing).rejects.toThrow('boom')
+    expect(await next).toBe('next')
+  })
+
+  it('starts queued tasks at once when the limit grows', async () => {
+    const throttle = createThrottler(1)
+    const { started, gates, results } = queueTasks(throttle, 3)
+
+    throttle.setMaxConcurrency(3)
+    expect(throttle.maxConcurrency).toBe(3)
+    expect(started).toEqual([0, 1, 2])
+
+    gates.forEach((gate) => gate.resolve())
+    await Promise.all(results)
+  })
+
+  it('lets running tasks finish when the limit shrinks', async () => {
+    const throttle = createThrottler(2)
+    const { started, gates, results } = queueTasks(throttle, 4)
+
+    throttle.setMaxConcurrency(1)
+    gates[0].resolve()
+    await flush()
+    expect(started).toEqual([0, 1])
+
+    gates[1].resolve()
+    await flush()
+    expect(started).toEqual([0, 1, 2])
+
+    gates.forEach((gate) => gate.resolve())
+    await Promise.all(results)
+  })
+
+  it('holds queued tasks while paused and starts them on resume', async () => {
+    const throttle = createThrottler(2)
+    const { started, gates, results } = queueTasks(throttle, 3)
+
+    throttle.pause()
+    expect(throttle.paused).toBe(true)
+    gates[0].resolve()
+    await flush()
+    expect(started).toEqual([0, 1])
+    expect(throttle.activeCount).toBe(1)
+
+    throttle.resume()
+    expect(throttle.paused).toBe(false)
+    expect(started).toEqual([0, 1, 2])
+
+    gates.forEach((gate) => gate.resolve())
+    expect(await Promise.all(results)).toEqual([0, 1, 2])
+  })
+})
@@ -1,25 +1,41 @@
 export type Task<T> = () => Promise<T>;
 
-export const createThrottler = (maxConcurrency: number) => {
-  if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+export interface Throttler {
+  <T>(taskFn: Task<T>): Promise<T>;
+  /** Changes the concurrency limit; queued tasks start immediately if it grows. */
+  setMaxConcurrency(value: number): void;
+  /** Stops starting queued tasks; tasks already running are left to finish. */
+  pause(): void;
+  resume(): void;
+  readonly paused: boolean;
+  readonly maxConcurrency: number;
+  readonly activeCount: number;
+}
+
+const assertConcurrency = (value: number) => {
+  if (!Number.isInteger(value) || value < 1) {
     throw new Error('maxConcurrency must be a positive integer')
   }
+}
+
+export const createThrottler = (initialConcurrency: number): Throttler => {
+  assertConcurrency(initialConcurrency)
 
+  let maxConcurrency = initialConcurrency
   let activeCount = 0
+  let paused = false
   const queue: Array<() => void> = []
 
   const next = () => {
-    if (activeCount >= maxConcurrency) {
-      return
-    }
+    while (!paused && activeCount < maxConcurrency) {
+      const task = queue.shift()
+      if (!task) {
+        return
+      }
 
-    const task = queue.shift()
-    if (!task) {
-      return
+      activeCount += 1
+      task()
     }
-
-    activeCount += 1
-    task()
   }
 
   const enqueue = <T>(taskFn: Task<T>): Promise<T> => {
@@ -39,5 +55,33 @@ export const createThrottler = (maxConcurrency: number) => {
     })
   }
 
-  return enqueue
+  return Object.defineProperties(enqueue, {
+    setMaxConcurrency: {
+      value: (value: number) => {
+        assertConcurrency(value)
+        maxConcurrency = value
+        next()
+      },
+    },
+    pause: {
+      value: () => {
+        paused = true
+      },
+    },
+    resume: {
+      value: () => {
+        paused = false
+        next()
+      },
+    },
+    paused: {
+      get: () => paused,
+    },
+    maxConcurrency: {
+      get: () => maxConcurrency,
+    },
+    activeCount: {
+      get: () => activeCount,
+    },
+  }) as Throttler
 }
@@ -0,0 +1,22 @@
+import { vi } from 'vitest'
+
+/**
+ * Replaces `chrome.storage.local` with an in-memory store for unit tests and
+ * returns the backing map. Values are cloned on the way in and out, as the
+ * real storage serializes them.
+ */
+export const stubChromeStorage = (): Map<string, unknown> => {
+  const items = new Map<string, unknown>()
+
+  const local = {
+    get: async (key: string) => (items.has(key) ? { [key]: structuredClone(items.get(key)) } : {}),
+    set: async (values: Record<string, unknown>) => {
+      Object.entries(values).forEach(([key, value]) => items.set(key, structuredClone(value)))
+    },
+    remove: async (key: string) => {
+      items.delete(key)
+    },
+  }
+  vi.stubGlobal('chrome', { storage: { local, onChanged: { addListener: () => undefined } } })
+  return items
+}